@@ -1,38 +1,37 @@
-import { GetObjectCommand, ListObjectsV2Command, S3Client } from "@aws-sdk/client-s3";
-import type { _Object as S3Object } from "@aws-sdk/client-s3";
-import fs from "node:fs";
 import path from "node:path";
-import { processDocument } from "./index";
-
-type AirbyteJob = {
-  id: number;
-  status: string;
-};
-
-async function fetchJob(jobId: number): Promise<AirbyteJob> {
-  try {
-    const { job } = await airbyteApi<{ job: AirbyteJob }>("jobs/get", { jobId });
-    return job;
-  } catch (error: any) {
-    const status = (error as any).status as number | undefined;
-    const message = (error as Error).message || String(error);
-    if (status === 401 || status === 403 || /401|403/.test(message)) {
-      console.warn(
-        "Job polling unauthorized/forbidden (likely scope limits or PAT scope); continuing without polling.",
-      );
-      return { id: jobId, status: "unknown" };
-    }
-    throw error;
-  }
-}
+import { deleteDocument, processDocument } from "./index";
+import {
+  describeSelection,
+  groupRuns,
+  listAllObjects,
+  resolveSyncIds,
+  selectRuns,
+  type AirbyteRun,
+  type RunSelection,
+} from "./src/airbyteRuns";
+import {
+  airbyteApiClient,
+  findActiveJob,
+  formatJobStats,
+  runSync,
+  triggerJob,
+} from "./src/airbyteJobs";
+import { sharedAirbyteAuth } from "./src/airbyteAuth";
+import { writeDocumentDeadLetter, type DocumentDeadLetter } from "./src/deadLetters";
+import { openFileStore } from "./src/persistence";
+import {
+  checkRemovals,
+  loadSyncState,
+  planSync,
+  recordObject,
+  saveSyncState,
+} from "./src/syncState";
+import { loadStorageConfig, parseCount } from "./src/config";
+import { openStorage, readObject } from "./src/storage";
 
 const normalizeBase = (base: string) => base.replace(/\/+$/, "");
 
 const AIRBYTE_BASE = normalizeBase(process.env.AIRBYTE_API_BASE || "https://api.airbyte.com/v1");
-const AIRBYTE_TOKEN_BASE = normalizeBase(
-  process.env.AIRBYTE_TOKEN_BASE || "https://api.airbyte.com/api/v1",
-);
-const AIRBYTE_TOKEN_URL = `${AIRBYTE_TOKEN_BASE}/applications/token`;
 
 const env = (name: string) => {
   const value = process.env[name];
@@ -53,18 +52,24 @@ const mimeFromExt: Record<string, string> = {
 };
 
 const config = {
-  airbyteToken: (process.env.AIRBYTE_ACCESS_TOKEN || "").trim() || null,
-  airbyteClientId: process.env.AIRBYTE_CLIENT_ID || null,
-  airbyteClientSecret: process.env.AIRBYTE_CLIENT_SECRET || null,
   connectionId: env("AIRBYTE_CONNECTION_ID"),
-  bucket: env("AIRBYTE_S3_BUCKET"),
+  storage: loadStorageConfig(), // STORAGE_BACKEND=local runs against a directory instead of S3
   prefix: env("AIRBYTE_S3_PREFIX"),
-  region: env("AWS_REGION"),
   stateFile: process.env.AIRBYTE_STATE_FILE || ".airbyte-processed.json",
+  // Documents that fail ingestion, for `replay`; same default as the Gmail processor
+  deadLetterPrefix:
+    process.env.DEAD_LETTER_PREFIX || `${process.env.AIRBYTE_S3_PREFIX || "raw/"}dead-letters/`,
   skipTrigger: envBool("AIRBYTE_SKIP_TRIGGER", false),
   skipPoll: envBool("AIRBYTE_SKIP_POLL", false),
+  attachRunning: envBool("AIRBYTE_ATTACH_RUNNING", true),
+  jobMaxWaitMinutes: Number(process.env.AIRBYTE_JOB_MAX_WAIT_MINUTES || 360),
+  pollMaxIntervalSeconds: Number(process.env.AIRBYTE_POLL_MAX_INTERVAL_SECONDS || 60),
   latestRunOnly: envBool("AIRBYTE_LATEST_RUN_ONLY", true),
+  run: process.env.AIRBYTE_RUN || undefined, // latest | all | <sync id>
+  runsSince: process.env.AIRBYTE_RUNS_SINCE || undefined,
   seedStateOnly: envBool("AIRBYTE_SEED_STATE_ONLY", false),
+  // Most objects one run may remove from Qdrant and the files table
+  maxDeletions: parseCount(process.env.AIRBYTE_MAX_DELETIONS || "50", "AIRBYTE_MAX_DELETIONS", 0),
   processEnabled: envBool("AIRBYTE_PROCESS_ENABLED", false),
   workspaceId: process.env.AIRBYTE_WORKSPACE_ID ?? process.env.WORKSPACE_ID ?? null,
   connectorName: process.env.CONNECTOR_NAME || "airbyte-drive",
@@ -72,272 +77,255 @@ const config = {
   connectorStatus: process.env.CONNECTOR_STATUS || "synced",
 };
 
-const s3 = new S3Client({ region: config.region });
-
-async function ensureAccessToken(): Promise<string> {
-  if (config.airbyteToken) return config.airbyteToken;
+const storage = openStorage(config.storage);
 
-  if (config.airbyteClientId && config.airbyteClientSecret) {
-    const res = await fetch(AIRBYTE_TOKEN_URL, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        client_id: config.airbyteClientId,
-        client_secret: config.airbyteClientSecret,
-      }),
-    });
+const airbyteApi = airbyteApiClient(AIRBYTE_BASE, sharedAirbyteAuth());
 
-    if (!res.ok) {
-      const text = await res.text();
-      throw new Error(
-        `Airbyte token fetch failed (${res.status}) via ${AIRBYTE_TOKEN_URL}: ${text}`,
-      );
-    }
+async function syncConnection() {
+  const syncOptions = {
+    attach: config.attachRunning,
+    maxWaitMs: config.jobMaxWaitMinutes * 60_000,
+    maxDelayMs: config.pollMaxIntervalSeconds * 1000,
+  };
 
-    const json = (await res.json()) as { access_token?: string };
-    if (!json.access_token) throw new Error("Airbyte token response missing access_token");
-    return json.access_token;
+  if (config.skipPoll) {
+    const job =
+      (config.attachRunning ? await findActiveJob(airbyteApi, config.connectionId) : null) ??
+      (await triggerJob(airbyteApi, config.connectionId));
+    console.log(
+      `Airbyte sync job ${job.id} (${job.status}); AIRBYTE_SKIP_POLL is set, not waiting.`,
+    );
+    return;
   }
 
-  throw new Error(
-    "Missing AIRBYTE_ACCESS_TOKEN or AIRBYTE_CLIENT_ID/SECRET. Provide a PAT or client credentials.",
-  );
-}
-
-const airbyteApi = async <T>(path: string, body: object): Promise<T> => {
-  const token = await ensureAccessToken();
-
-  const url = `${AIRBYTE_BASE}/${path}`;
-
-  const res = await fetch(url, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${token}`,
-      "Content-Type": "application/json",
+  let lastStatus: string | null = null;
+  const { job, attached } = await runSync(airbyteApi, config.connectionId, {
+    ...syncOptions,
+    onPoll: (polled, attempt) => {
+      if (polled.status !== lastStatus || attempt % 10 === 0) {
+        console.log(`Job ${polled.id} status: ${polled.status} (poll ${attempt})`);
+        lastStatus = polled.status;
+      }
     },
-    body: JSON.stringify(body),
   });
+  console.log(
+    `Airbyte job ${job.id} ${attached ? "(attached) " : ""}finished: ${formatJobStats(job)}`,
+  );
+}
 
-  if (!res.ok) {
-    const text = await res.text();
-    const error = new Error(`Airbyte API ${url} failed (${res.status}): ${text}`);
-    // @ts-expect-error augment
-    error.status = res.status;
-    throw error;
-  }
-
-  return res.json() as Promise<T>;
-};
-
-const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
-
-async function triggerAndWait(): Promise<number> {
-  const trigger = await airbyteApi<{ jobId: number }>("jobs", {
-    connectionId: config.connectionId,
-    jobType: "sync",
-  });
-
-  const jobId = trigger.jobId;
-  console.log(`Triggered Airbyte sync job ${jobId}`);
-
-  if (config.skipPoll) {
-    console.log("AIRBYTE_SKIP_POLL is set; skipping job status polling.");
-    return jobId;
+function parseSelection(value: string | undefined, since: string | undefined): RunSelection {
+  if (since) {
+    const date = new Date(since);
+    if (Number.isNaN(date.getTime())) throw new Error(`Invalid run timestamp: ${since}`);
+    return { mode: "since", since: date };
   }
+  if (!value) return config.latestRunOnly ? { mode: "latest" } : { mode: "all" };
+  if (value === "latest" || value === "all") return { mode: value };
+  return { mode: "sync", syncId: value };
+}
 
-  for (;;) {
-    const job = await fetchJob(jobId);
-    console.log(`Job ${jobId} status: ${job.status}`);
-
-    if (job.status === "succeeded" || job.status === "unknown") return jobId;
-    if (["cancelled", "failed", "error", "incomplete"].includes(job.status)) {
-      throw new Error(`Airbyte job ${jobId} ended with status ${job.status}`);
+type Args = { listRuns: boolean; run?: string; since?: string };
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = { listRuns: false };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === "--list-runs") {
+      args.listRuns = true;
+    } else if (a === "--run") {
+      args.run = argv[++i];
+    } else if (a === "--since") {
+      args.since = argv[++i];
     }
-
-    await sleep(5000);
   }
+  return args;
 }
 
-type S3Entry = { key: string; size?: number; lastModified?: Date; etag?: string };
-
-async function listObjects(): Promise<S3Entry[]> {
-  const resp = await s3.send(
-    new ListObjectsV2Command({ Bucket: config.bucket, Prefix: config.prefix }),
-  );
-
-  const entries: Array<S3Entry | null> = (resp.Contents || []).map((item: S3Object) => {
-    const key = item.Key ?? null;
-    if (!key) return null;
-    return {
-      key,
-      size: item.Size ?? undefined,
-      lastModified: item.LastModified ?? undefined,
-      etag: item.ETag ?? undefined,
-    };
-  });
-
-  return entries
-    .filter((entry): entry is S3Entry => entry !== null)
-    .filter((entry) => !entry.key.endsWith("airbyte_meta.json"));
-}
-
-function extractRunFolder(key: string): string | null {
-  // assumes keys look like `${prefix}YYYY-MM-DD/...` or similar
-  const withoutPrefix = key.startsWith(config.prefix) ? key.slice(config.prefix.length) : key;
-  const parts = withoutPrefix.split("/").filter(Boolean);
-  return parts[0] || null;
+async function discoverRuns(): Promise<{ runs: AirbyteRun[]; total: number }> {
+  // Dead letters default to a folder under the same prefix; they are not Airbyte output
+  const listed = await listAllObjects(storage, config.prefix, [config.deadLetterPrefix]);
+  const objects = await resolveSyncIds(storage, config.prefix, listed);
+  return { runs: groupRuns(objects), total: objects.length };
 }
 
-function filterLatestRun(entries: S3Entry[]): S3Entry[] {
-  if (!config.latestRunOnly) return entries;
-  const byFolder = new Map<string, { entries: S3Entry[]; newest: number }>();
-  for (const entry of entries) {
-    const folder = extractRunFolder(entry.key) ?? "__root__";
-    const ts = entry.lastModified ? entry.lastModified.getTime() : 0;
-    const bucket = byFolder.get(folder) ?? { entries: [], newest: 0 };
-    bucket.entries.push(entry);
-    bucket.newest = Math.max(bucket.newest, ts);
-    byFolder.set(folder, bucket);
+function printRuns(runs: AirbyteRun[]) {
+  if (runs.length === 0) {
+    console.log(`No objects under prefix ${config.prefix}`);
+    return;
   }
-  if (byFolder.size === 0) return [];
-  let latestFolder = null;
-  let latestTs = -1;
-  for (const [folder, data] of byFolder.entries()) {
-    if (data.newest > latestTs) {
-      latestTs = data.newest;
-      latestFolder = folder;
-    }
+  console.log("sync_id\tobjects\tfirst_modified\tlast_modified\tsource");
+  for (const run of runs) {
+    console.log(
+      [
+        run.syncId,
+        run.objects.length,
+        run.firstModified?.toISOString() ?? "-",
+        run.lastModified?.toISOString() ?? "-",
+        run.source,
+      ].join("\t"),
+    );
   }
-  if (!latestFolder) return entries;
-  return byFolder.get(latestFolder)?.entries ?? entries;
 }
 
-function loadProcessedKeys(): Set<string> {
-  const fullPath = path.resolve(config.stateFile);
+async function maybeGetAirbyteMeta(key: string): Promise<unknown> {
+  const metaKey = `${key}.airbyte_meta.json`;
   try {
-    const raw = fs.readFileSync(fullPath, "utf8");
-    const parsed = JSON.parse(raw);
-    if (Array.isArray(parsed)) return new Set(parsed);
-    return new Set<string>();
+    const body = await readObject(storage, metaKey);
+    return body.length > 0 ? JSON.parse(body.toString("utf8")) : null;
   } catch {
-    return new Set<string>();
+    return null;
   }
 }
 
-function saveProcessedKeys(keys: Set<string>) {
-  const fullPath = path.resolve(config.stateFile);
-  fs.writeFileSync(fullPath, JSON.stringify(Array.from(keys), null, 2));
-}
-
-async function getObjectBuffer(key: string): Promise<Buffer> {
-  const obj = await s3.send(new GetObjectCommand({ Bucket: config.bucket, Key: key }));
-  const body = await obj.Body?.transformToByteArray();
-  if (!body) throw new Error(`Empty object body for ${key}`);
-  return Buffer.from(body);
-}
-
-async function maybeGetAirbyteMeta(key: string): Promise<unknown> {
-  const metaKey = `${key}.airbyte_meta.json`;
+// Keeps a failed document for `replay`. A letter that cannot be written is only logged, so the
+// ingestion error is the one the run fails with.
+async function deadLetterDocument(key: string, metadata: Record<string, unknown>, error: string) {
+  const letter: DocumentDeadLetter = {
+    version: 1,
+    kind: "document",
+    stage: "ingest",
+    error,
+    source: { bucket: storage.location, key },
+    workspaceId: config.workspaceId,
+    metadata,
+    attempts: 1,
+    failedAt: new Date().toISOString(),
+  };
   try {
-    const obj = await s3.send(new GetObjectCommand({ Bucket: config.bucket, Key: metaKey }));
-    const body = await obj.Body?.transformToByteArray();
-    if (!body) return null;
-    return JSON.parse(new TextDecoder().decode(body));
-  } catch {
-    return null;
+    const letterKey = await writeDocumentDeadLetter(storage, config.deadLetterPrefix, letter);
+    console.log(`Dead-lettered ${key} to ${letterKey}`);
+  } catch (err) {
+    console.error(`✗ Could not write dead letter for ${key}: ${(err as Error).message}`);
   }
 }
 
 async function run() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (args.listRuns) {
+    const { runs } = await discoverRuns();
+    printRuns(runs);
+    return;
+  }
+
+  const selection = parseSelection(args.run ?? config.run, args.since ?? config.runsSince);
+
   if (config.skipTrigger) {
     console.log("AIRBYTE_SKIP_TRIGGER is set; skipping sync trigger.");
   } else {
-    await triggerAndWait();
+    await syncConnection();
   }
 
   console.log("Listing S3 objects produced by Airbyte...");
-  const entriesAll = await listObjects();
-  const entries = filterLatestRun(entriesAll);
+  const { runs, total } = await discoverRuns();
+  const selected = selectRuns(runs, selection);
+  const entriesAll = runs.flatMap((r) => r.objects);
+  const entries = selected.flatMap((r) => r.objects);
   console.log(
-    `Found ${entriesAll.length} candidate objects under prefix ${config.prefix} ` +
-      `(processing ${entries.length} from ${config.latestRunOnly ? "latest run folder" : "all runs"})`,
+    `Found ${total} candidate objects in ${runs.length} run(s) under prefix ${config.prefix} ` +
+      `(processing ${entries.length} from ${describeSelection(selection)}: ` +
+      `${selected.map((r) => r.syncId).join(", ") || "none"})`,
   );
 
-  const processed = loadProcessedKeys();
-  const newEntries = entries.filter((entry) => !processed.has(entry.key));
-  console.log(`Filtered to ${newEntries.length} new objects (state file: ${config.stateFile})`);
+  const state = loadSyncState(config.stateFile);
+  const plan = planSync(state, entries, entriesAll, config.processEnabled);
+  const toIngest = [...plan.added, ...plan.changed, ...plan.retry];
+  console.log(
+    `Sync plan: ${plan.added.length} new, ${plan.changed.length} changed, ` +
+      `${plan.retry.length} retry, ${plan.unchanged.length} unchanged, ` +
+      `${plan.removed.length} removed (state file: ${config.stateFile})`,
+  );
 
   if (config.seedStateOnly) {
     console.log("AIRBYTE_SEED_STATE_ONLY is set; seeding state with current keys and exiting.");
-    newEntries.forEach((entry) => processed.add(entry.key));
-    saveProcessedKeys(processed);
+    toIngest.forEach((entry) => recordObject(state, entry, "seeded"));
+    saveSyncState(config.stateFile, state);
     return;
   }
 
-  const now = new Date().toISOString();
-
-  console.log("\n--- Supabase upsert preview ---");
-  console.log(
-    JSON.stringify(
-      {
-        connectors: {
-          upsert: {
-            workspace_id: config.workspaceId,
-            airbyte_connection_id: config.connectionId,
-            name: config.connectorName,
-            type: config.connectorType,
-            status: config.connectorStatus,
-            updated_at: now,
-          },
-        },
-      },
-      null,
-      2,
-    ),
-  );
-
-  for (const entry of newEntries) {
-    const key = entry.key;
-    const ext = path.extname(key).replace(".", "").toLowerCase();
-    const supabaseFileRow = {
-      workspace_id: config.workspaceId,
-      connector_id: "(lookup connectors.id by airbyte_connection_id)",
-      path: key,
-      format: ext || null,
-      mime_type: mimeFromExt[ext] || null,
-      size: entry.size ?? null,
-      checksum: entry.etag ?? null,
-      is_viewable: true,
-      sync_status: "synced",
-      last_synced_at: now,
-      created_at: now,
-      updated_at: now,
-    };
-
-    console.log(JSON.stringify({ files: { insert: supabaseFileRow } }, null, 2));
-
-    console.log(`\nProcessing ${key}`);
-    if (!config.processEnabled) {
-      console.log("- AIRBYTE_PROCESS_ENABLED=false, skipping ingestion");
-      processed.add(key);
-      continue;
+  checkRemovals(plan.removed, entriesAll.length, config.maxDeletions);
+  const store = openFileStore();
+  try {
+    for (const key of plan.removed) {
+      console.log(`\nRemoving ${key} (no longer in S3)`);
+      // Pending objects were never ingested, so there are no points to delete
+      if (state.objects[key]?.status !== "pending") {
+        await deleteDocument(key, config.workspaceId);
+      }
+      await store.deleteFile(key);
+      delete state.objects[key];
+      saveSyncState(config.stateFile, state);
     }
 
-    const data = await getObjectBuffer(key);
-    const airbyteMeta = await maybeGetAirbyteMeta(key);
+    const connectorId = await store.upsertConnector({
+      workspaceId: config.workspaceId,
+      airbyteConnectionId: config.connectionId,
+      name: config.connectorName,
+      type: config.connectorType,
+      status: config.connectorStatus,
+    });
+    console.log(`Connector ${config.connectionId} -> connectors.id ${connectorId}`);
+
+    for (const entry of toIngest) {
+      const key = entry.key;
+      const ext = path.extname(key).replace(".", "").toLowerCase();
+      await store.upsertFile(
+        {
+          workspaceId: config.workspaceId,
+          connectorId,
+          path: key,
+          format: ext || null,
+          mimeType: mimeFromExt[ext] || null,
+          size: entry.size ?? null,
+          checksum: entry.etag ?? null,
+        },
+        config.processEnabled ? "ingesting" : "pending",
+      );
 
-    if (airbyteMeta) {
-      console.log(`- Airbyte metadata: ${JSON.stringify(airbyteMeta).slice(0, 200)}...`);
-    } else {
-      console.log("- No Airbyte metadata found");
+      console.log(`\nProcessing ${key}`);
+      if (!config.processEnabled) {
+        console.log("- AIRBYTE_PROCESS_ENABLED=false, skipping ingestion");
+        recordObject(state, entry, "pending");
+        saveSyncState(config.stateFile, state);
+        continue;
+      }
+
+      const metadata = {
+        source: "airbyte",
+        connector_type: config.connectorType,
+        airbyte_connection_id: config.connectionId,
+        date_ts: entry.lastModified?.getTime() ?? null,
+      };
+      try {
+        const data = await readObject(storage, key);
+        const airbyteMeta = await maybeGetAirbyteMeta(key);
+
+        if (airbyteMeta) {
+          console.log(`- Airbyte metadata: ${JSON.stringify(airbyteMeta).slice(0, 200)}...`);
+        } else {
+          console.log("- No Airbyte metadata found");
+        }
+
+        await processDocument({ filename: key, data, workspaceId: config.workspaceId, metadata });
+      } catch (error) {
+        const message = (error as Error).message;
+        await store.setSyncStatus(key, "failed", message);
+        recordObject(state, entry, "failed", message);
+        saveSyncState(config.stateFile, state);
+        await deadLetterDocument(key, metadata, message);
+        throw error;
+      }
+      await store.setSyncStatus(key, "indexed");
+      recordObject(state, entry, "indexed");
+      saveSyncState(config.stateFile, state);
     }
-
-    await processDocument({ filename: key, data });
-    processed.add(key);
+  } finally {
+    await store.close();
   }
 
-  saveProcessedKeys(processed);
-  console.log(`\nUpdated processed state with ${processed.size} total keys`);
+  // Persists etags adopted for legacy entries even when nothing needed ingesting
+  saveSyncState(config.stateFile, state);
+  console.log(`\nSync state now tracks ${Object.keys(state.objects).length} objects`);
 }
 
 run().catch((error) => {
@@ -0,0 +1,173 @@
+import { openai } from "@ai-sdk/openai";
+import { generateText, streamText } from "ai";
+import { parseScore, parseSearchArgs, search, type SearchHit, type SearchOptions } from "./search";
+
+const ANSWER_MODEL = process.env.ASK_MODEL || "gpt-4o-mini";
+const NO_ANSWER = "NO_ANSWER";
+const NO_ANSWER_TEXT = "No answer found in the ingested documents and emails.";
+
+export type AskOptions = SearchOptions & {
+  minScore?: number; // below this top score the question is not sent to the model at all
+  onToken?: (token: string) => void; // enables streaming
+};
+
+export type Citation = {
+  number: number;
+  label: string; // `gmail:<messageId>` or `<filename>#<element_index>`
+  filename: string | null;
+  elementIndex: number | null;
+  messageId: string | null;
+  score: number;
+};
+
+export type AskResult = {
+  question: string;
+  found: boolean;
+  answer: string;
+  citations: Citation[]; // sources the answer actually cites
+  sources: Citation[]; // everything that was retrieved and shown to the model
+};
+
+function citationFor(hit: SearchHit): Citation {
+  const label = hit.messageId
+    ? `gmail:${hit.messageId}`
+    : `${hit.filename ?? "unknown"}${hit.elementIndex !== null ? `#${hit.elementIndex}` : ""}`;
+  return {
+    number: hit.rank,
+    label,
+    filename: hit.filename,
+    elementIndex: hit.elementIndex,
+    messageId: hit.messageId,
+    score: hit.score,
+  };
+}
+
+function buildPrompt(question: string, hits: SearchHit[]): { system: string; prompt: string } {
+  const sources = hits
+    .map((hit) => `[${hit.rank}] (${citationFor(hit).label})\n${hit.text.trim()}`)
+    .join("\n\n");
+  return {
+    system:
+      "You answer questions using only the numbered sources provided. " +
+      "Cite every claim with the source number in square brackets, e.g. [1] or [2][3]. " +
+      `If the sources do not contain the answer, reply with exactly ${NO_ANSWER}.`,
+    prompt: `Sources:\n\n${sources}\n\nQuestion: ${question}`,
+  };
+}
+
+function citedNumbers(answer: string): Set<number> {
+  return new Set(Array.from(answer.matchAll(/\[(\d+)\]/g), (m) => Number(m[1])));
+}
+
+const noAnswer = (question: string, sources: Citation[]): AskResult => ({
+  question,
+  found: false,
+  answer: NO_ANSWER_TEXT,
+  citations: [],
+  sources,
+});
+
+export async function ask(question: string, opts: AskOptions = {}): Promise<AskResult> {
+  const { minScore = 0.3, onToken, ...searchOpts } = opts;
+  const hits = await search(question, { topK: 8, ...searchOpts });
+  const sources = hits.map(citationFor);
+
+  if (hits.length === 0 || hits[0]!.score < minScore) {
+    onToken?.(NO_ANSWER_TEXT);
+    return noAnswer(question, sources);
+  }
+
+  const { system, prompt } = buildPrompt(question, hits);
+  let answer: string;
+  if (onToken) {
+    const result = streamText({ model: openai(ANSWER_MODEL), system, prompt });
+    answer = "";
+    let held = "";
+    for await (const token of result.textStream) {
+      answer += token;
+      // Hold output back while it could still turn out to be the NO_ANSWER marker
+      if (NO_ANSWER.startsWith(answer.trim())) {
+        held += token;
+        continue;
+      }
+      onToken(held + token);
+      held = "";
+    }
+    if (answer.trim() !== NO_ANSWER && held) onToken(held);
+  } else {
+    const result = await generateText({ model: openai(ANSWER_MODEL), system, prompt });
+    answer = result.text;
+  }
+
+  answer = answer.trim();
+  if (answer === NO_ANSWER) {
+    onToken?.(NO_ANSWER_TEXT);
+    return noAnswer(question, sources);
+  }
+
+  const cited = citedNumbers(answer);
+  return {
+    question,
+    found: true,
+    answer,
+    citations: sources.filter((source) => cited.has(source.number)),
+    sources,
+  };
+}
+
+async function main() {
+  const argv = process.argv.slice(2);
+  let stream = false;
+  let minScore: number | undefined;
+  const rest: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i]!;
+    if (a === "--stream") {
+      stream = true;
+    } else if (a === "--min-score") {
+      minScore = parseScore(argv[++i], a);
+    } else {
+      rest.push(a);
+    }
+  }
+  const { query, json, ...searchOpts } = parseSearchArgs(rest);
+  if (!query) {
+    throw new Error(
+      "Usage: bun run ask.ts <question> [--stream] [--min-score X] [--json] [search flags]",
+    );
+  }
+
+  const result = await ask(query, {
+    ...searchOpts,
+    minScore,
+    onToken: stream && !json ? (token) => process.stdout.write(token) : undefined,
+  });
+
+  if (json) {
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+
+  if (stream) process.stdout.write("\n");
+  else console.log(result.answer);
+
+  if (result.citations.length > 0) {
+    console.log("\nSources:");
+    for (const citation of result.citations) {
+      console.log(`  [${citation.number}] ${citation.label} (score ${citation.score.toFixed(3)})`);
+    }
+  }
+}
+
+const isMainModule =
+  typeof process !== "undefined" &&
+  process.argv[1] &&
+  new URL(import.meta.url).pathname === new URL(`file://${process.argv[1]}`).pathname;
+
+if (isMainModule) {
+  main().catch((error) => {
+    console.error("\n=== ASK FAILED ===");
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -1,60 +1,179 @@
-import { UnstructuredClient } from "unstructured-client";
-import { type PartitionResponse } from "unstructured-client/sdk/models/operations";
-import { Strategy } from "unstructured-client/sdk/models/shared";
 import fs from "node:fs";
-import { openai } from "@ai-sdk/openai";
-import { embedMany } from "ai";
+import { createHash } from "node:crypto";
 import { QdrantClient } from "@qdrant/js-client-rest";
-
-const client = new UnstructuredClient({
-  serverURL: process.env.UNSTRUCTURED_API_URL!,
-  security: {
-    apiKeyAuth: process.env.UNSTRUCTURED_API_KEY!,
-  },
-});
-
-const qdrantClient = new QdrantClient({
+import {
+  chunkElements,
+  chunkSettingsId,
+  loadChunkingOptions,
+  type Chunk,
+  type ChunkingOptions,
+  type PartitionElement,
+} from "./src/chunking";
+import { collectionName, embeddingProvider, type EmbeddingProvider } from "./src/embeddings";
+import { partitionDocument, type PartitionerConfig } from "./src/partitioners";
+import { createRedactor, loadRedactionPolicy, redactValue, type Redactor } from "./src/redaction";
+
+export const qdrantClient = new QdrantClient({
   url: process.env.QDRANT_API_URL!,
   apiKey: process.env.QDRANT_API_KEY!,
   port: null, // Don't append default port since URL already includes routing
 });
 
-const COLLECTION_NAME = "benny";
 const defaultFilename = "docs/docx/Tom Malek Pearson.docx";
 
+// Payload fields used in search filters (see src/processor.ts for the Gmail ones)
+const PAYLOAD_INDEXES: Array<{ field: string; schema: "keyword" | "integer" }> = [
+  { field: "workspace_id", schema: "keyword" },
+  { field: "source", schema: "keyword" },
+  { field: "connector_type", schema: "keyword" },
+  { field: "filename", schema: "keyword" },
+  { field: "message_id", schema: "keyword" },
+  { field: "thread_id", schema: "keyword" },
+  { field: "from_address", schema: "keyword" },
+  { field: "label_ids", schema: "keyword" },
+  { field: "date_ts", schema: "integer" },
+  { field: "chunk_settings", schema: "keyword" },
+];
+// Filter keys are stored as given, so search can still match them exactly (a masked
+// `from_address` would be "[EMAIL]" on every point); every other payload string is redacted.
+const UNREDACTED_FIELDS = new Set(PAYLOAD_INDEXES.map((i) => i.field));
+const payloadIndexesEnsured = new Set<string>();
+
+async function ensurePayloadIndexes(collection: string) {
+  if (payloadIndexesEnsured.has(collection)) return;
+  for (const { field, schema } of PAYLOAD_INDEXES) {
+    // Creating an index that already exists is a no-op in Qdrant
+    await qdrantClient.createPayloadIndex(collection, {
+      field_name: field,
+      field_schema: schema,
+      wait: true,
+    });
+  }
+  payloadIndexesEnsured.add(collection);
+  console.log(`✓ Payload indexes ensured (${PAYLOAD_INDEXES.map((i) => i.field).join(", ")})`);
+}
+
 type DocumentInput = {
   filename: string;
   data: Buffer;
+  workspaceId?: string | null;
+  chunking?: ChunkingOptions; // defaults to CHUNK_* env settings
+  embedder?: EmbeddingProvider; // defaults to the EMBEDDING_* env provider
+  partitioners?: PartitionerConfig; // defaults to the PARTITIONER* env settings
+  redactor?: Redactor; // defaults to the REDACTION_* policy of the workspace
+  metadata?: Record<string, unknown>; // extra payload fields, e.g. the parent message of an attachment
 };
 
-export async function processDocument({ filename, data }: DocumentInput) {
+export type DocumentResult = {
+  status: "indexed" | "unchanged" | "empty";
+  documentHash: string;
+  points: number;
+};
+
+// Deterministic UUID (Qdrant only accepts unsigned ints or UUIDs) so re-ingesting a file
+// overwrites its own points instead of another document's.
+export function pointId(workspaceId: string | null, filename: string, index: number): string {
+  const hex = createHash("sha256")
+    .update(`${workspaceId ?? ""}\u0000${filename}\u0000${index}`)
+    .digest("hex");
+  const variant = ((parseInt(hex[16]!, 16) & 0x3) | 0x8).toString(16);
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    `5${hex.slice(13, 16)}`,
+    `${variant}${hex.slice(17, 20)}`,
+    hex.slice(20, 32),
+  ].join("-");
+}
+
+function documentFilter(workspaceId: string | null, filename: string) {
+  const must: Array<{ key: string; match: { value: string } }> = [
+    { key: "filename", match: { value: filename } },
+  ];
+  if (workspaceId) must.push({ key: "workspace_id", match: { value: workspaceId } });
+  return { must };
+}
+
+const isQdrantNotFound = (error: unknown) => (error as { status?: number })?.status === 404;
+
+async function existingDocument(
+  collection: string,
+  workspaceId: string | null,
+  filename: string,
+): Promise<{
+  hash: string | null;
+  chunkSettings: string | null;
+  embeddingModel: string | null;
+  redactionSettings: string | null;
+} | null> {
+  // Missing collection (first run) means nothing was ingested yet; any other failure must not be
+  // mistaken for that, or the document would be upserted next to its stale points
+  const { exists } = await qdrantClient.collectionExists(collection);
+  if (!exists) return null;
+  try {
+    const { points } = await qdrantClient.scroll(collection, {
+      filter: documentFilter(workspaceId, filename),
+      limit: 1,
+      with_payload: ["document_hash", "chunk_settings", "embedding_model", "redaction_settings"],
+      with_vector: false,
+    });
+    const payload = points[0]?.payload;
+    if (!payload) return null;
+    return {
+      hash: typeof payload.document_hash === "string" ? payload.document_hash : null,
+      chunkSettings: typeof payload.chunk_settings === "string" ? payload.chunk_settings : null,
+      embeddingModel: typeof payload.embedding_model === "string" ? payload.embedding_model : null,
+      redactionSettings:
+        typeof payload.redaction_settings === "string" ? payload.redaction_settings : null,
+    };
+  } catch (error) {
+    // The collection was dropped between the two calls
+    if (isQdrantNotFound(error)) return null;
+    throw error;
+  }
+}
+
+export async function processDocument({
+  filename,
+  data,
+  workspaceId = null,
+  chunking = loadChunkingOptions(),
+  embedder = embeddingProvider(),
+  partitioners,
+  redactor = createRedactor(loadRedactionPolicy(workspaceId)),
+  metadata,
+}: DocumentInput): Promise<DocumentResult> {
   console.log("=== DOCUMENT PROCESSING PIPELINE ===\n");
 
+  const documentHash = createHash("sha256").update(data).digest("hex");
+  const chunkSettings = chunkSettingsId(chunking);
+  const embeddingModel = `${embedder.name}:${embedder.model}:${embedder.dimensions}`;
+  const collection = collectionName(embedder);
+  const previous = await existingDocument(collection, workspaceId, filename);
+  if (
+    previous?.hash === documentHash &&
+    previous.chunkSettings === chunkSettings &&
+    previous.embeddingModel === embeddingModel &&
+    previous.redactionSettings === redactor.settings
+  ) {
+    console.log(
+      `- ${filename} is unchanged since last ingestion (sha256 ${documentHash}); skipping`,
+    );
+    return { status: "unchanged", documentHash, points: 0 };
+  }
+
   // STEP 1: DOCUMENT PREPROCESSING VIA UNSTRUCTURED
   console.log("[STEP 1/3] DOCUMENT PREPROCESSING");
   console.log(`- Received file: ${filename}`);
   console.log(`- Size: ${data.length} bytes`);
 
-  console.log(`- Calling Unstructured API for document partitioning...`);
-  let elements: Array<{ [k: string]: any }>;
+  console.log(`- Partitioning document...`);
+  let elements: PartitionElement[];
+  let partitioner: string;
 
   try {
-    const response: PartitionResponse = await client.general.partition({
-      partitionParameters: {
-        files: {
-          content: data,
-          fileName: filename,
-        },
-        strategy: Strategy.HiRes,
-        splitPdfPage: true,
-        splitPdfAllowFailed: true,
-        splitPdfConcurrencyLevel: 15,
-        languages: ["eng"],
-      },
-    });
-
-    elements = Array.isArray(response) ? response : [];
-    console.log(`✓ Document partitioned successfully`);
+    ({ elements, partitioner } = await partitionDocument(filename, data, partitioners));
+    console.log(`✓ Document partitioned successfully (partitioner: ${partitioner})`);
     console.log(`  - Total elements: ${elements.length}`);
   } catch (error) {
     console.error("✗ Error during document partitioning:");
@@ -64,51 +183,80 @@ export async function processDocument({ filename, data }: DocumentInput) {
 
   if (elements.length === 0) {
     console.log("⚠ No elements found in partition response. Exiting.");
-    return;
+    return { status: "empty", documentHash, points: 0 };
+  }
+
+  // Nothing below sees the raw text: chunks, embedding inputs and payloads are built from the
+  // redacted elements and metadata
+  console.log(`- Redacting PII (policy: ${redactor.settings})...`);
+  const elementRedactions: number[] = [];
+  const payloadMetadata: Record<string, unknown> = {};
+  let metadataRedactions = 0;
+  try {
+    const kinds: Record<string, number> = {};
+    const tally = (result: { count: number; kinds: Record<string, number> }) => {
+      for (const [kind, n] of Object.entries(result.kinds)) kinds[kind] = (kinds[kind] ?? 0) + n;
+      return result.count;
+    };
+    elements = elements.map((element) => {
+      const result = redactValue(redactor, element);
+      elementRedactions.push(tally(result));
+      return result.value;
+    });
+    for (const [key, value] of Object.entries(metadata ?? {})) {
+      if (UNREDACTED_FIELDS.has(key)) {
+        payloadMetadata[key] = value;
+        continue;
+      }
+      const result = redactValue(redactor, value);
+      metadataRedactions += tally(result);
+      payloadMetadata[key] = result.value;
+    }
+    const total = Object.values(kinds).reduce((sum, n) => sum + n, 0);
+    const breakdown = Object.entries(kinds).map(([kind, n]) => `${kind}=${n}`);
+    console.log(`✓ ${total} values redacted${total > 0 ? ` (${breakdown.join(" ")})` : ""}`);
+  } catch (error) {
+    console.error("✗ Error redacting PII:");
+    console.error("  Error details:", error);
+    throw error;
   }
 
-  // Extract text from elements
-  console.log(`- Extracting text from elements...`);
-  let texts: string[];
+  // Group elements into chunks
+  console.log(`- Chunking elements (strategy: ${chunkSettings})...`);
+  let chunks: Chunk[];
 
   try {
-    texts = elements
-      .map((element: any) => element.text)
-      .filter((text: string) => text && text.trim().length > 0);
+    chunks = chunkElements(elements, chunking);
 
-    console.log(`✓ Text extraction complete`);
-    console.log(`  - Total text chunks: ${texts.length}`);
-    const firstText = texts[0];
+    console.log(`✓ Chunking complete`);
+    console.log(`  - Total text chunks: ${chunks.length}`);
+    const firstText = chunks[0]?.text;
     if (firstText) {
       console.log(
         `  - Sample text (first chunk): "${firstText.substring(0, 100)}${firstText.length > 100 ? "..." : ""}"`,
       );
     }
   } catch (error) {
-    console.error("✗ Error extracting text from elements:");
+    console.error("✗ Error chunking elements:");
     console.error("  Error details:", error);
     throw error;
   }
 
-  if (texts.length === 0) {
+  if (chunks.length === 0) {
     console.log("⚠ No text content found in elements. Exiting.");
-    return;
+    return { status: "empty", documentHash, points: 0 };
   }
+  const texts = chunks.map((chunk) => chunk.text);
 
-  // STEP 2: EMBEDDING GENERATION VIA OPENAI API
+  // STEP 2: EMBEDDING GENERATION
   console.log("\n[STEP 2/3] EMBEDDING GENERATION");
   console.log(`- Generating embeddings for ${texts.length} text chunks...`);
-  console.log(`  - Model: text-embedding-3-small`);
+  console.log(`  - Model: ${embeddingModel}`);
 
   let embeddings: number[][];
 
   try {
-    const result = await embedMany({
-      model: openai.embedding("text-embedding-3-small"),
-      values: texts,
-    });
-
-    embeddings = result.embeddings as number[][];
+    embeddings = await embedder.embed(texts);
     console.log(`✓ Embeddings generated successfully`);
     console.log(`  - Total embeddings: ${embeddings.length}`);
     const firstEmbedding = embeddings[0];
@@ -128,48 +276,98 @@ export async function processDocument({ filename, data }: DocumentInput) {
   console.log("\n[STEP 3/3] EMBEDDING PERSISTENCE");
   console.log(`- Connecting to Qdrant at ${process.env.QDRANT_API_URL}`);
 
-  const vectorSize = embeddings[0]?.length ?? 1536;
+  const vectorSize = embeddings[0]?.length ?? embedder.dimensions;
 
   // Ensure collection exists
+  let existing: Awaited<ReturnType<typeof qdrantClient.getCollection>> | null = null;
   try {
-    console.log(`- Checking if collection '${COLLECTION_NAME}' exists...`);
-    await qdrantClient.getCollection(COLLECTION_NAME);
-    console.log(`✓ Collection '${COLLECTION_NAME}' already exists`);
+    console.log(`- Checking if collection '${collection}' exists...`);
+    existing = await qdrantClient.getCollection(collection);
+    console.log(`✓ Collection '${collection}' already exists`);
   } catch (error) {
-    console.log(`- Collection not found, creating '${COLLECTION_NAME}'...`);
+    console.log(`- Collection not found, creating '${collection}'...`);
 
     try {
-      await qdrantClient.createCollection(COLLECTION_NAME, {
+      await qdrantClient.createCollection(collection, {
         vectors: {
           size: vectorSize,
           distance: "Cosine",
         },
       });
-      console.log(`✓ Collection '${COLLECTION_NAME}' created successfully`);
+      console.log(`✓ Collection '${collection}' created successfully`);
       console.log(`  - Vector size: ${vectorSize}`);
       console.log(`  - Distance metric: Cosine`);
     } catch (createError) {
-      console.error("✗ Error creating Qdrant collection:");
-      console.error("  Error details:", createError);
-      throw createError;
+      // Another concurrent ingest may have created it first
+      const { exists } = await qdrantClient
+        .collectionExists(collection)
+        .catch(() => ({ exists: false }));
+      if (!exists) {
+        console.error("✗ Error creating Qdrant collection:");
+        console.error("  Error details:", createError);
+        throw createError;
+      }
+      console.log(`✓ Collection '${collection}' was created concurrently`);
     }
   }
+  // The name already encodes the size, so a mismatch means the collection was made by hand
+  const existingSize = (existing?.config.params.vectors as { size?: number } | undefined)?.size;
+  if (existingSize !== undefined && existingSize !== vectorSize) {
+    throw new Error(
+      `Collection '${collection}' holds ${existingSize}-dimension vectors but ${embeddingModel} ` +
+        `produces ${vectorSize}; set QDRANT_COLLECTION to use another collection`,
+    );
+  }
+
+  try {
+    await ensurePayloadIndexes(collection);
+  } catch (error) {
+    console.error("✗ Error creating payload indexes:");
+    console.error("  Error details:", error);
+    throw error;
+  }
 
   // Prepare points for Qdrant
   console.log(`- Preparing ${texts.length} points for insertion...`);
   let points;
 
   try {
-    points = texts.map((text: string, idx: number) => ({
-      id: idx,
-      vector: embeddings[idx]!,
-      payload: {
-        text,
-        filename,
-        element_index: idx,
-        element_metadata: elements[idx],
-      },
-    }));
+    const ingestedAt = new Date().toISOString();
+    points = chunks.map((chunk, idx) => {
+      const firstElement = chunk.elementIndexes[0]!;
+      return {
+        id: pointId(workspaceId, filename, idx),
+        vector: embeddings[idx]!,
+        payload: {
+          ...payloadMetadata,
+          workspace_id: workspaceId,
+          document_hash: documentHash,
+          ingested_at: ingestedAt,
+          text: chunk.text,
+          filename,
+          chunk_index: chunk.index,
+          chunk_settings: chunkSettings,
+          embedding_model: embeddingModel,
+          // Values replaced in the elements this chunk was built from and in the document metadata
+          redaction_count:
+            metadataRedactions +
+            chunk.elementIndexes.reduce((sum, i) => sum + (elementRedactions[i] ?? 0), 0),
+          redaction_settings: redactor.settings,
+          partitioner,
+          chunking: {
+            strategy: chunking.strategy,
+            max_tokens: chunking.maxTokens,
+            overlap_tokens: chunking.overlapTokens,
+          },
+          element_index: firstElement,
+          element_indexes: chunk.elementIndexes,
+          element_types: chunk.elementTypes,
+          page_numbers: chunk.pageNumbers,
+          parent_title: chunk.parentTitle,
+          element_metadata: elements[firstElement],
+        },
+      };
+    });
     console.log(`✓ Points prepared successfully`);
   } catch (error) {
     console.error("✗ Error preparing points:");
@@ -177,11 +375,27 @@ export async function processDocument({ filename, data }: DocumentInput) {
     throw error;
   }
 
+  // Remove the previous version so chunks that no longer exist do not linger
+  if (previous) {
+    console.log(`- Deleting previous points for ${filename} (sha256 ${previous.hash})...`);
+    try {
+      await qdrantClient.delete(collection, {
+        wait: true,
+        filter: documentFilter(workspaceId, filename),
+      });
+      console.log(`✓ Previous points deleted`);
+    } catch (error) {
+      console.error("✗ Error deleting previous points:");
+      console.error("  Error details:", error);
+      throw error;
+    }
+  }
+
   // Upsert points to Qdrant
-  console.log(`- Upserting points to collection '${COLLECTION_NAME}'...`);
+  console.log(`- Upserting points to collection '${collection}'...`);
 
   try {
-    await qdrantClient.upsert(COLLECTION_NAME, {
+    await qdrantClient.upsert(collection, {
       wait: true,
       points,
     });
@@ -199,7 +413,56 @@ export async function processDocument({ filename, data }: DocumentInput) {
   console.log(`  - Text chunks: ${texts.length}`);
   console.log(`  - Embeddings generated: ${embeddings.length}`);
   console.log(`  - Vectors stored in Qdrant: ${points.length}`);
-  console.log(`  - Collection: ${COLLECTION_NAME}`);
+  console.log(`  - Collection: ${collection}`);
+
+  return { status: "indexed", documentHash, points: points.length };
+}
+
+// Filenames that have points in the workspace, optionally only those of one connector type.
+export async function listDocumentFilenames(
+  workspaceId: string | null,
+  connectorType?: string,
+  embedder: EmbeddingProvider = embeddingProvider(),
+): Promise<string[]> {
+  const collection = collectionName(embedder);
+  const { exists } = await qdrantClient.collectionExists(collection);
+  if (!exists) return [];
+  const must: Array<{ key: string; match: { value: string } }> = [];
+  if (workspaceId) must.push({ key: "workspace_id", match: { value: workspaceId } });
+  if (connectorType) must.push({ key: "connector_type", match: { value: connectorType } });
+
+  const filenames = new Set<string>();
+  let offset: Awaited<ReturnType<typeof qdrantClient.scroll>>["next_page_offset"] = undefined;
+  do {
+    const page = await qdrantClient.scroll(collection, {
+      filter: { must },
+      limit: 256,
+      offset: offset ?? undefined,
+      with_payload: ["filename"],
+      with_vector: false,
+    });
+    for (const point of page.points) {
+      const filename = point.payload?.filename;
+      if (typeof filename === "string") filenames.add(filename);
+    }
+    offset = page.next_page_offset;
+  } while (offset !== null && offset !== undefined);
+  return [...filenames].sort();
+}
+
+// Removes every point of a document, e.g. after its source file was deleted.
+export async function deleteDocument(
+  filename: string,
+  workspaceId: string | null = null,
+  embedder: EmbeddingProvider = embeddingProvider(),
+) {
+  const collection = collectionName(embedder);
+  const { exists } = await qdrantClient.collectionExists(collection);
+  if (!exists) return;
+  await qdrantClient.delete(collection, {
+    wait: true,
+    filter: documentFilter(workspaceId, filename),
+  });
 }
 
 async function main() {
@@ -215,7 +478,7 @@ async function main() {
     throw error;
   }
 
-  await processDocument({ filename, data });
+  await processDocument({ filename, data, workspaceId: process.env.AIRBYTE_WORKSPACE_ID ?? null });
 }
 
 // Execute main function with error handling when run directly
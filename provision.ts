@@ -0,0 +1,58 @@
+import { sharedAirbyteAuth } from "./src/airbyteAuth";
+import { airbyteApiClient } from "./src/airbyteJobs";
+import {
+  applyPlan,
+  fetchWorkspace,
+  formatPlan,
+  loadSpec,
+  planProvisioning,
+} from "./src/airbyteProvisioning";
+
+const AIRBYTE_BASE = process.env.AIRBYTE_API_BASE || "https://api.airbyte.com/v1";
+
+async function main() {
+  const argv = process.argv.slice(2);
+  const apply = argv.includes("--apply");
+  const file = argv.find((a) => !a.startsWith("--"));
+  if (!file) {
+    throw new Error("Usage: bun run provision.ts <spec.yaml|spec.json> [--apply]");
+  }
+
+  const spec = loadSpec(file);
+  const api = airbyteApiClient(AIRBYTE_BASE, sharedAirbyteAuth());
+
+  console.log(`Reading workspace ${spec.workspaceId}...`);
+  const existing = await fetchWorkspace(api, spec.workspaceId);
+  const plan = planProvisioning(spec, existing);
+  console.log(formatPlan(plan));
+
+  if (!apply) {
+    console.log("\nPlan only; re-run with --apply to make these changes.");
+    return;
+  }
+  if (plan.every((s) => s.action === "unchanged")) {
+    console.log("\nNothing to apply.");
+    return;
+  }
+
+  console.log("\nApplying...");
+  const ids = await applyPlan(api, spec, plan);
+  for (const connection of spec.connections) {
+    console.log(
+      `AIRBYTE_CONNECTION_ID for ${connection.name}: ${ids.get(`connection:${connection.name}`)}`,
+    );
+  }
+}
+
+const isMainModule =
+  typeof process !== "undefined" &&
+  process.argv[1] &&
+  new URL(import.meta.url).pathname === new URL(`file://${process.argv[1]}`).pathname;
+
+if (isMainModule) {
+  main().catch((error) => {
+    console.error("\n=== PROVISIONING FAILED ===");
+    console.error(error);
+    process.exit(1);
+  });
+}
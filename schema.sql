@@ -0,0 +1,32 @@
+-- Tables written by src/persistence.ts. The upserts rely on the two unique constraints.
+
+create table if not exists connectors (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id text,
+  airbyte_connection_id text not null unique,
+  name text not null,
+  type text not null,
+  status text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists files (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id text,
+  connector_id uuid not null references connectors (id) on delete cascade,
+  path text not null unique,
+  format text,
+  mime_type text,
+  size bigint,
+  checksum text,
+  is_viewable boolean not null default true,
+  sync_status text not null check (sync_status in ('pending', 'ingesting', 'indexed', 'failed')),
+  sync_error text,
+  last_synced_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists files_connector_id_idx on files (connector_id);
+create index if not exists files_sync_status_idx on files (sync_status);
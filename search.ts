@@ -0,0 +1,171 @@
+import { qdrantClient } from "./index";
+import { parseCount } from "./src/config";
+import { collectionName, embeddingProvider } from "./src/embeddings";
+
+export type SearchFilters = {
+  workspaceId?: string;
+  filename?: string;
+  connectorType?: string; // e.g. "gmail", "google_drive"
+  from?: Date; // inclusive lower bound on `date_ts`
+  to?: Date; // inclusive upper bound on `date_ts`
+};
+
+export type SearchOptions = SearchFilters & {
+  topK?: number;
+  scoreThreshold?: number;
+};
+
+export type SearchHit = {
+  rank: number;
+  id: string | number;
+  score: number;
+  text: string;
+  filename: string | null;
+  connectorType: string | null;
+  workspaceId: string | null;
+  messageId: string | null;
+  elementIndex: number | null;
+  payload: Record<string, unknown>;
+};
+
+type Condition =
+  | { key: string; match: { value: string } }
+  | { key: string; range: { gte?: number; lte?: number } };
+
+export function buildFilter(filters: SearchFilters): { must: Condition[] } | undefined {
+  const must: Condition[] = [];
+  if (filters.workspaceId) {
+    must.push({ key: "workspace_id", match: { value: filters.workspaceId } });
+  }
+  if (filters.filename) must.push({ key: "filename", match: { value: filters.filename } });
+  if (filters.connectorType) {
+    must.push({ key: "connector_type", match: { value: filters.connectorType } });
+  }
+  if (filters.from || filters.to) {
+    must.push({
+      key: "date_ts",
+      range: { gte: filters.from?.getTime(), lte: filters.to?.getTime() },
+    });
+  }
+  return must.length > 0 ? { must } : undefined;
+}
+
+const str = (value: unknown) => (typeof value === "string" ? value : null);
+
+export async function search(query: string, opts: SearchOptions = {}): Promise<SearchHit[]> {
+  // The collection is the one built with this provider/model
+  const embedder = embeddingProvider();
+  const [embedding] = await embedder.embed([query]);
+
+  const { points } = await qdrantClient.query(collectionName(embedder), {
+    query: embedding!,
+    limit: opts.topK ?? 10,
+    score_threshold: opts.scoreThreshold,
+    filter: buildFilter(opts),
+    with_payload: true,
+  });
+
+  return points.map((point, idx) => {
+    const payload = (point.payload ?? {}) as Record<string, unknown>;
+    return {
+      rank: idx + 1,
+      id: point.id,
+      score: point.score,
+      text: str(payload.text) ?? "",
+      filename: str(payload.filename),
+      connectorType: str(payload.connector_type),
+      workspaceId: str(payload.workspace_id),
+      messageId: str(payload.message_id) ?? str(payload.parent_message_id),
+      elementIndex: typeof payload.element_index === "number" ? payload.element_index : null,
+      payload,
+    };
+  });
+}
+
+export function snippet(text: string, max = 200): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > max ? `${flat.slice(0, max)}...` : flat;
+}
+
+export type SearchArgs = SearchOptions & { query: string; json: boolean };
+
+function parseDate(value: string | undefined, flag: string): Date {
+  const date = value ? new Date(value) : new Date(NaN);
+  if (Number.isNaN(date.getTime())) throw new Error(`Invalid date for ${flag}: ${value}`);
+  return date;
+}
+
+export function parseScore(value: string | undefined, flag: string): number {
+  const score = value?.trim() ? Number(value) : NaN;
+  if (!Number.isFinite(score)) throw new Error(`Invalid score for ${flag}: ${value}`);
+  return score;
+}
+
+export function parseSearchArgs(argv: string[]): SearchArgs {
+  const args: SearchArgs = { query: "", json: false };
+  const words: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i]!;
+    if (a === "--top-k") {
+      args.topK = parseCount(argv[++i], a);
+    } else if (a === "--score-threshold") {
+      args.scoreThreshold = parseScore(argv[++i], a);
+    } else if (a === "--workspace") {
+      args.workspaceId = argv[++i];
+    } else if (a === "--filename") {
+      args.filename = argv[++i];
+    } else if (a === "--connector-type") {
+      args.connectorType = argv[++i];
+    } else if (a === "--from") {
+      args.from = parseDate(argv[++i], a);
+    } else if (a === "--to") {
+      args.to = parseDate(argv[++i], a);
+    } else if (a === "--json") {
+      args.json = true;
+    } else {
+      words.push(a);
+    }
+  }
+  args.query = words.join(" ").trim();
+  return args;
+}
+
+async function main() {
+  const { query, json, ...opts } = parseSearchArgs(process.argv.slice(2));
+  if (!query) {
+    throw new Error(
+      "Usage: bun run search.ts <query> [--top-k N] [--score-threshold X] [--workspace ID] " +
+        "[--filename PATH] [--connector-type TYPE] [--from DATE] [--to DATE] [--json]",
+    );
+  }
+
+  const hits = await search(query, opts);
+
+  if (json) {
+    console.log(JSON.stringify({ query, hits }, null, 2));
+    return;
+  }
+
+  console.log(
+    `Query: "${query}" (${hits.length} hit(s) from '${collectionName(embeddingProvider())}')\n`,
+  );
+  for (const hit of hits) {
+    const source = hit.filename ?? "(unknown source)";
+    const location = hit.elementIndex !== null ? ` #${hit.elementIndex}` : "";
+    console.log(`${hit.rank}. [${hit.score.toFixed(3)}] ${source}${location}`);
+    console.log(`   ${snippet(hit.text)}\n`);
+  }
+}
+
+const isMainModule =
+  typeof process !== "undefined" &&
+  process.argv[1] &&
+  new URL(import.meta.url).pathname === new URL(`file://${process.argv[1]}`).pathname;
+
+if (isMainModule) {
+  main().catch((error) => {
+    console.error("\n=== SEARCH FAILED ===");
+    console.error(error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,97 @@
+export type AirbyteCredentials = {
+  accessToken?: string | null; // static token (PAT); used as-is until a 401
+  clientId?: string | null;
+  clientSecret?: string | null;
+  tokenUrl: string; // `<AIRBYTE_TOKEN_BASE>/applications/token`
+};
+
+export interface AirbyteAuth {
+  token(): Promise<string>;
+  // Drops the current token after a 401; returns false when there is no way to get a new one.
+  // Throws when a static token was rejected and there are no client credentials to fall back on.
+  invalidate(): boolean;
+}
+
+// Airbyte application tokens last three minutes; used when the response has no `expires_in`
+const DEFAULT_TTL_SECONDS = 180;
+
+export function airbyteAuth(creds: AirbyteCredentials, refreshMarginMs = 30_000): AirbyteAuth {
+  let staticToken = (creds.accessToken || "").trim() || null;
+  const canMint = Boolean(creds.clientId && creds.clientSecret);
+  let cached: { token: string; expiresAt: number } | null = null;
+  let pending: Promise<string> | null = null;
+
+  const mint = async (): Promise<string> => {
+    const res = await fetch(creds.tokenUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        client_id: creds.clientId,
+        client_secret: creds.clientSecret,
+      }),
+    });
+
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`Airbyte token fetch failed (${res.status}) via ${creds.tokenUrl}: ${text}`);
+    }
+
+    const json = (await res.json()) as { access_token?: string; expires_in?: number };
+    if (!json.access_token) throw new Error("Airbyte token response missing access_token");
+    const ttlMs = (json.expires_in ?? DEFAULT_TTL_SECONDS) * 1000;
+    cached = { token: json.access_token, expiresAt: Date.now() + ttlMs };
+    return json.access_token;
+  };
+
+  return {
+    async token() {
+      if (staticToken) return staticToken;
+      if (!canMint) {
+        throw new Error(
+          "Missing AIRBYTE_ACCESS_TOKEN or AIRBYTE_CLIENT_ID/SECRET. Provide a PAT or client credentials.",
+        );
+      }
+      if (cached && Date.now() < cached.expiresAt - refreshMarginMs) return cached.token;
+      // Concurrent callers share one refresh
+      pending ??= mint().finally(() => {
+        pending = null;
+      });
+      return pending;
+    },
+    invalidate() {
+      if (staticToken) {
+        if (!canMint) {
+          throw new Error(
+            "Airbyte rejected the personal access token (401); check AIRBYTE_ACCESS_TOKEN",
+          );
+        }
+        staticToken = null; // fall back to client credentials
+        return true;
+      }
+      cached = null;
+      return canMint;
+    },
+  };
+}
+
+const normalizeBase = (base: string) => base.replace(/\/+$/, "");
+
+export function airbyteCredentialsFromEnv(): AirbyteCredentials {
+  const tokenBase = normalizeBase(
+    process.env.AIRBYTE_TOKEN_BASE || "https://api.airbyte.com/api/v1",
+  );
+  return {
+    accessToken: process.env.AIRBYTE_ACCESS_TOKEN || null,
+    clientId: process.env.AIRBYTE_CLIENT_ID || null,
+    clientSecret: process.env.AIRBYTE_CLIENT_SECRET || null,
+    tokenUrl: `${tokenBase}/applications/token`,
+  };
+}
+
+let shared: AirbyteAuth | null = null;
+
+// One token cache per process, shared by the runner and other Airbyte commands.
+export function sharedAirbyteAuth(): AirbyteAuth {
+  shared ??= airbyteAuth(airbyteCredentialsFromEnv());
+  return shared;
+}
@@ -0,0 +1,135 @@
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import { airbyteAuth, type AirbyteAuth } from "./airbyteAuth";
+import { airbyteApiClient, runSync, waitForJob, type JobStatus } from "./airbyteJobs";
+
+// Local stand-in for the Airbyte public API jobs endpoints. Each job walks through `statuses`,
+// one step per GET, and stays on the last one.
+type FakeJob = { jobId: number; connectionId: string; statuses: JobStatus[]; polls: number };
+let jobs: FakeJob[] = [];
+let requests: Array<{ method: string; path: string; at: number }> = [];
+let nextId = 100;
+
+const status = (job: FakeJob) => job.statuses[Math.min(job.polls, job.statuses.length - 1)]!;
+const body = (job: FakeJob) => ({ jobId: job.jobId, status: status(job), jobType: "sync" });
+
+const server = Bun.serve({
+  port: 0,
+  async fetch(req) {
+    const url = new URL(req.url);
+    requests.push({ method: req.method, path: url.pathname, at: performance.now() });
+    if (req.headers.get("authorization") === "Bearer revoked") {
+      return new Response("unauthorized", { status: 401 });
+    }
+    const match = url.pathname.match(/^\/jobs\/(\d+)$/);
+    if (match) {
+      const job = jobs.find((j) => j.jobId === Number(match[1]));
+      if (!job) return new Response("not found", { status: 404 });
+      if (req.method === "DELETE") {
+        job.statuses = ["cancelled"];
+        job.polls = 0;
+        return Response.json(body(job));
+      }
+      const response = Response.json(body(job));
+      job.polls += 1;
+      return response;
+    }
+    if (url.pathname === "/jobs" && req.method === "GET") {
+      const wanted = url.searchParams.get("status");
+      const connectionId = url.searchParams.get("connectionId");
+      const data = jobs
+        .filter((j) => j.connectionId === connectionId && status(j) === wanted)
+        .map(body);
+      return Response.json({ data });
+    }
+    if (url.pathname === "/jobs" && req.method === "POST") {
+      const { connectionId } = (await req.json()) as { connectionId: string };
+      const job = { jobId: nextId++, connectionId, statuses: ["pending", "running", "succeeded"] };
+      jobs.push({ ...job, statuses: job.statuses as JobStatus[], polls: 0 });
+      return Response.json(body(jobs.at(-1)!));
+    }
+    return new Response("unexpected", { status: 500 });
+  },
+});
+
+const staticAuth: AirbyteAuth = { token: async () => "test-token", invalidate: () => false };
+const api = airbyteApiClient(`http://localhost:${server.port}/`, staticAuth);
+const fast = { initialDelayMs: 5, maxDelayMs: 20, cancelOnInterrupt: false };
+
+beforeEach(() => {
+  jobs = [];
+  requests = [];
+});
+
+afterAll(() => server.stop(true));
+
+describe("runSync", () => {
+  test("attaches to a running job instead of triggering one", async () => {
+    jobs.push({ jobId: 7, connectionId: "c1", statuses: ["running", "succeeded"], polls: 0 });
+    const result = await runSync(api, "c1", fast);
+    expect(result.attached).toBe(true);
+    expect(result.job).toMatchObject({ id: 7, status: "succeeded" });
+    expect(requests.some((r) => r.method === "POST")).toBe(false);
+  });
+
+  test("triggers a sync when none is active", async () => {
+    jobs.push({ jobId: 8, connectionId: "other", statuses: ["running"], polls: 0 });
+    const result = await runSync(api, "c1", fast);
+    expect(result.attached).toBe(false);
+    expect(result.job.status).toBe("succeeded");
+    expect(requests.filter((r) => r.method === "POST")).toHaveLength(1);
+  });
+
+  test("fails when the job does not succeed", async () => {
+    jobs.push({ jobId: 9, connectionId: "c1", statuses: ["running", "failed"], polls: 0 });
+    await expect(runSync(api, "c1", fast)).rejects.toThrow(
+      "Airbyte job 9 ended with status failed",
+    );
+  });
+
+  test("cancels the Airbyte job on interrupt", async () => {
+    jobs.push({ jobId: 10, connectionId: "c1", statuses: ["running"], polls: 0 });
+    const run = runSync(api, "c1", {
+      ...fast,
+      cancelOnInterrupt: true,
+      onPoll: (_job, attempt) => {
+        if (attempt === 1) setTimeout(() => process.emit("SIGINT"), 0);
+      },
+    });
+    await expect(run).rejects.toThrow("Airbyte job 10 cancelled by user");
+    expect(requests.some((r) => r.method === "DELETE" && r.path === "/jobs/10")).toBe(true);
+    expect(jobs[0]!.statuses).toEqual(["cancelled"]);
+  });
+});
+
+describe("waitForJob", () => {
+  test("backs off exponentially up to the maximum delay", async () => {
+    const statuses: JobStatus[] = ["running", "running", "running", "running", "running"];
+    jobs.push({ jobId: 11, connectionId: "c1", statuses: [...statuses, "succeeded"], polls: 0 });
+    const job = await waitForJob(api, 11, { initialDelayMs: 20, maxDelayMs: 80 });
+    expect(job.status).toBe("succeeded");
+
+    const polls = requests.filter((r) => r.path === "/jobs/11").map((r) => r.at);
+    const gaps = polls.slice(1).map((at, i) => at - polls[i]!);
+    // 20, 40, 80, 80, 80 ms between polls (timers can only fire late)
+    [20, 40, 80, 80, 80].forEach((expected, i) =>
+      expect(gaps[i]!).toBeGreaterThanOrEqual(expected - 2),
+    );
+    expect(gaps[4]!).toBeLessThan(160);
+  });
+
+  test("times out without cancelling the job", async () => {
+    jobs.push({ jobId: 12, connectionId: "c1", statuses: ["running"], polls: 0 });
+    await expect(
+      waitForJob(api, 12, { initialDelayMs: 10, maxDelayMs: 10, maxWaitMs: 50 }),
+    ).rejects.toThrow(/Timed out after \ds waiting for Airbyte job 12/);
+    expect(requests.some((r) => r.method === "DELETE")).toBe(false);
+  });
+});
+
+describe("airbyteApiClient", () => {
+  test("names the token variable when a personal access token is rejected", async () => {
+    const auth = airbyteAuth({ accessToken: "revoked", tokenUrl: "http://localhost:1/token" });
+    const client = airbyteApiClient(`http://localhost:${server.port}`, auth);
+    await expect(runSync(client, "c1", fast)).rejects.toThrow("check AIRBYTE_ACCESS_TOKEN");
+  });
+});
@@ -0,0 +1,201 @@
+import type { AirbyteAuth } from "./airbyteAuth";
+
+export type JobStatus = "pending" | "running" | "incomplete" | "failed" | "succeeded" | "cancelled";
+
+export type JobInfo = {
+  id: number;
+  status: JobStatus;
+  attempts: number | null; // not every API shape reports attempts
+  bytesSynced: number | null;
+  recordsSynced: number | null;
+  startedAt: string | null;
+};
+
+export type AirbyteApi = <T>(
+  method: "GET" | "POST" | "PATCH" | "DELETE",
+  path: string,
+  body?: object,
+) => Promise<T>;
+
+export type WaitOptions = {
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  maxWaitMs?: number; // give up (without cancelling) after this long
+  onPoll?: (job: JobInfo, attempt: number) => void;
+};
+
+// `incomplete` means an attempt failed and Airbyte is retrying it
+export const ACTIVE_STATUSES: JobStatus[] = ["pending", "running", "incomplete"];
+
+// Airbyte's public API (`AIRBYTE_API_BASE`, or a local stand-in of it). A 401 refreshes the
+// token once and retries.
+export function airbyteApiClient(baseUrl: string, auth: AirbyteAuth): AirbyteApi {
+  const base = baseUrl.replace(/\/+$/, "");
+  return async <T>(method: "GET" | "POST" | "PATCH" | "DELETE", path: string, body?: object) => {
+    const url = `${base}/${path}`;
+    const send = async () =>
+      fetch(url, {
+        method,
+        headers: {
+          Authorization: `Bearer ${await auth.token()}`,
+          "Content-Type": "application/json",
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+    let res = await send();
+    if (res.status === 401 && auth.invalidate()) {
+      console.warn(`Airbyte API ${method} ${url} returned 401; refreshing token and retrying`);
+      res = await send();
+    }
+    if (!res.ok) {
+      const text = await res.text();
+      const error = new Error(`Airbyte API ${method} ${url} failed (${res.status}): ${text}`);
+      throw Object.assign(error, { status: res.status });
+    }
+    const text = await res.text();
+    return (text ? JSON.parse(text) : {}) as T;
+  };
+}
+
+const num = (value: unknown) => (typeof value === "number" ? value : null);
+
+// Accepts the public API JobResponse and the config API `{ job, attempts }` shape.
+export function toJobInfo(raw: unknown): JobInfo {
+  const r = raw as Record<string, any>;
+  const job = (r.job ?? r) as Record<string, any>;
+  const attempts = Array.isArray(r.attempts) ? r.attempts : null;
+  const lastAttempt = attempts?.at(-1)?.attempt ?? attempts?.at(-1);
+  return {
+    id: Number(job.jobId ?? job.id),
+    status: String(job.status).toLowerCase() as JobStatus,
+    attempts: attempts ? attempts.length : num(job.attempts ?? job.attemptCount),
+    bytesSynced: num(job.bytesSynced) ?? num(lastAttempt?.bytesSynced),
+    recordsSynced: num(job.rowsSynced) ?? num(job.recordsSynced) ?? num(lastAttempt?.recordsSynced),
+    startedAt: job.startTime ?? job.createdAt ?? null,
+  };
+}
+
+export async function getJob(api: AirbyteApi, jobId: number): Promise<JobInfo> {
+  return toJobInfo(await api("GET", `jobs/${jobId}`));
+}
+
+export async function triggerJob(api: AirbyteApi, connectionId: string): Promise<JobInfo> {
+  return toJobInfo(await api("POST", "jobs", { connectionId, jobType: "sync" }));
+}
+
+export async function cancelJob(api: AirbyteApi, jobId: number): Promise<JobInfo> {
+  return toJobInfo(await api("DELETE", `jobs/${jobId}`));
+}
+
+// The newest pending/running sync for the connection, if any.
+export async function findActiveJob(
+  api: AirbyteApi,
+  connectionId: string,
+): Promise<JobInfo | null> {
+  for (const status of ["running", "pending"]) {
+    const query = new URLSearchParams({ connectionId, jobType: "sync", status, limit: "1" });
+    const { data } = await api<{ data?: unknown[] }>("GET", `jobs?${query}`);
+    const job = data?.[0];
+    if (job) return toJobInfo(job);
+  }
+  return null;
+}
+
+const abortableSleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Polls with exponential backoff until the job leaves the active states or `maxWaitMs` passes.
+export async function waitForJob(
+  api: AirbyteApi,
+  jobId: number,
+  opts: WaitOptions & { signal?: AbortSignal } = {},
+): Promise<JobInfo> {
+  const { initialDelayMs = 2_000, maxDelayMs = 60_000, maxWaitMs = 6 * 60 * 60 * 1000 } = opts;
+  const deadline = Date.now() + maxWaitMs;
+  let delay = initialDelayMs;
+  for (let attempt = 1; ; attempt++) {
+    const job = await getJob(api, jobId);
+    opts.onPoll?.(job, attempt);
+    if (!ACTIVE_STATUSES.includes(job.status)) return job;
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      throw new Error(
+        `Timed out after ${Math.round(maxWaitMs / 1000)}s waiting for Airbyte job ${jobId}`,
+      );
+    }
+    await abortableSleep(Math.min(delay, remaining), opts.signal);
+    delay = Math.min(maxDelayMs, delay * 2);
+  }
+}
+
+export type SyncOptions = WaitOptions & {
+  attach?: boolean; // reuse an in-progress job instead of triggering a new one (default true)
+  cancelOnInterrupt?: boolean; // cancel the Airbyte job on SIGINT (default true)
+};
+
+export type SyncResult = { job: JobInfo; attached: boolean };
+
+// Attaches to (or triggers) a sync for the connection and waits for it to finish. Throws when the
+// job fails, is cancelled, times out or the user interrupts.
+export async function runSync(
+  api: AirbyteApi,
+  connectionId: string,
+  opts: SyncOptions = {},
+): Promise<SyncResult> {
+  const { attach = true, cancelOnInterrupt = true } = opts;
+
+  let job = attach ? await findActiveJob(api, connectionId) : null;
+  const attached = job !== null;
+  if (job) {
+    console.log(`Attaching to Airbyte sync job ${job.id} (status: ${job.status})`);
+  } else {
+    job = await triggerJob(api, connectionId);
+    console.log(`Triggered Airbyte sync job ${job.id}`);
+  }
+  const jobId = job.id;
+
+  const controller = new AbortController();
+  const onInterrupt = () => controller.abort(new Error("Interrupted"));
+  if (cancelOnInterrupt) process.once("SIGINT", onInterrupt);
+
+  try {
+    job = await waitForJob(api, jobId, { ...opts, signal: controller.signal });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      console.warn(`Interrupted; cancelling Airbyte job ${jobId}...`);
+      const cancelled = await cancelJob(api, jobId).catch((cancelError) => {
+        console.error(`Failed to cancel Airbyte job ${jobId}:`, cancelError);
+        return null;
+      });
+      if (cancelled) console.warn(`Airbyte job ${jobId} status: ${cancelled.status}`);
+      throw new Error(`Airbyte job ${jobId} cancelled by user`);
+    }
+    throw error;
+  } finally {
+    process.removeListener("SIGINT", onInterrupt);
+  }
+
+  if (job.status !== "succeeded") {
+    throw new Error(`Airbyte job ${jobId} ended with status ${job.status}`);
+  }
+  return { job, attached };
+}
+
+export function formatJobStats(job: JobInfo): string {
+  const value = (n: number | null) => (n === null ? "?" : String(n));
+  return (
+    `status=${job.status} attempts=${value(job.attempts)} ` +
+    `bytes=${value(job.bytesSynced)} records=${value(job.recordsSynced)}`
+  );
+}
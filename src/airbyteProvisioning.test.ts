@@ -0,0 +1,138 @@
+import { describe, expect, test } from "bun:test";
+import {
+  diffFields,
+  planProvisioning,
+  type ProvisioningSpec,
+  type WorkspaceResources,
+} from "./airbyteProvisioning";
+
+const spec: ProvisioningSpec = {
+  workspaceId: "ws",
+  sources: [
+    {
+      name: "gmail",
+      type: "gmail",
+      configuration: { start_date: "2025-01-01", credentials: { client_secret: "s3cret" } },
+    },
+    { name: "drive", type: "google-drive" },
+  ],
+  destinations: [{ name: "lake", bucket: "raw-files", prefix: "raw/", region: "ap-southeast-2" }],
+  connections: [
+    {
+      name: "gmail-to-lake",
+      source: "gmail",
+      destination: "lake",
+      streams: ["messages", { name: "threads", syncMode: "incremental_append" }],
+      schedule: { cron: "0 0 * * * ?" },
+    },
+  ],
+};
+
+// The workspace as the Airbyte API returns it: secrets masked, extra fields, streams in its order.
+const existing = (): WorkspaceResources => ({
+  sources: [
+    {
+      sourceId: "src-1",
+      name: "gmail",
+      sourceType: "gmail",
+      workspaceId: "ws",
+      configuration: { start_date: "2025-01-01", credentials: { client_secret: "**********" } },
+    },
+  ],
+  destinations: [
+    {
+      destinationId: "dst-1",
+      name: "lake",
+      destinationType: "s3",
+      configuration: {
+        s3_bucket_name: "raw-files",
+        s3_bucket_path: "raw/",
+        s3_bucket_region: "us-east-1",
+        format: { format_type: "JSONL", compression: { compression_type: "No Compression" } },
+      },
+    },
+  ],
+  connections: [
+    {
+      connectionId: "conn-1",
+      name: "gmail-to-lake",
+      sourceId: "src-1",
+      destinationId: "dst-1",
+      status: "active",
+      schedule: { scheduleType: "cron", cronExpression: "0 0 * * * ?" },
+      configurations: {
+        streams: [
+          { name: "threads", syncMode: "incremental_append", cursorField: ["historyId"] },
+          { name: "messages", syncMode: "full_refresh_overwrite", primaryKey: [["id"]] },
+        ],
+      },
+    },
+  ],
+});
+
+describe("diffFields", () => {
+  test("lists the paths that differ and ignores fields only on the remote", () => {
+    const desired = { name: "a", configuration: { region: "eu", format: { type: "JSONL" } } };
+    const actual = { name: "a", id: "x", configuration: { region: "us", format: { type: "CSV" } } };
+    expect(diffFields(desired, actual)).toEqual([
+      "configuration.region",
+      "configuration.format.type",
+    ]);
+    expect(diffFields({ streams: ["a", "b"] }, { streams: ["b", "a"] })).toEqual(["streams"]);
+    expect(diffFields({ nested: { a: 1 } }, { nested: "flat" })).toEqual(["nested"]);
+  });
+
+  test("never reports a masked secret as changed", () => {
+    expect(diffFields({ token: "real" }, { token: "****" })).toEqual([]);
+    expect(diffFields({ token: "real" }, { token: "other" })).toEqual(["token"]);
+  });
+});
+
+describe("planProvisioning", () => {
+  test("creates, updates and leaves unchanged by name", () => {
+    const plan = planProvisioning(spec, existing());
+    expect(
+      plan.map(({ kind, name, action, id, changes }) => [kind, name, action, id, changes]),
+    ).toEqual([
+      ["source", "gmail", "unchanged", "src-1", []],
+      ["source", "drive", "create", null, []],
+      ["destination", "lake", "update", "dst-1", ["configuration.s3_bucket_region"]],
+      ["connection", "gmail-to-lake", "unchanged", "conn-1", []],
+    ]);
+  });
+
+  test("does not diff streams listed in another order", () => {
+    const workspace = existing();
+    workspace.connections[0]!.configurations.streams.reverse();
+    expect(planProvisioning(spec, workspace).at(-1)!.action).toBe("unchanged");
+  });
+
+  test("updates a connection whose stream sync mode changed", () => {
+    const workspace = existing();
+    workspace.connections[0]!.configurations.streams[0].syncMode = "full_refresh_overwrite";
+    expect(planProvisioning(spec, workspace).at(-1)).toMatchObject({
+      action: "update",
+      changes: ["configurations.streams"],
+    });
+  });
+
+  test("flags a connection whose source or destination changed as a conflict", () => {
+    const workspace = existing();
+    workspace.connections[0]!.sourceId = "src-old";
+    expect(planProvisioning(spec, workspace).at(-1)).toMatchObject({
+      kind: "connection",
+      action: "conflict",
+      id: "conn-1",
+    });
+
+    // A destination that does not exist yet can't match the connection's either
+    const renamed = { ...spec, connections: [{ ...spec.connections[0]!, destination: "lake-2" }] };
+    expect(planProvisioning(renamed, existing()).at(-1)!.action).toBe("conflict");
+  });
+
+  test("creates everything in an empty workspace", () => {
+    const plan = planProvisioning(spec, { sources: [], destinations: [], connections: [] });
+    expect(plan.every((s) => s.action === "create" && s.id === null)).toBe(true);
+    expect(plan).toHaveLength(4);
+  });
+});
@@ -0,0 +1,373 @@
+import fs from "node:fs";
+import type { AirbyteApi } from "./airbyteJobs";
+
+export type SourceSpec = {
+  name: string;
+  type: string; // Airbyte sourceType, e.g. "gmail", "google-drive"
+  configuration?: Record<string, unknown>;
+};
+
+export type DestinationSpec = {
+  name: string;
+  bucket: string;
+  prefix: string;
+  region: string;
+  format?: "jsonl" | "csv" | "parquet" | "avro"; // default jsonl
+  configuration?: Record<string, unknown>; // credentials, path format, ...
+};
+
+export type StreamSpec = { name: string; syncMode?: string } | string;
+
+export type ConnectionSpec = {
+  name: string;
+  source: string; // SourceSpec name
+  destination: string; // DestinationSpec name
+  streams?: StreamSpec[];
+  schedule?: "manual" | { cron: string };
+  status?: "active" | "inactive";
+};
+
+export type ProvisioningSpec = {
+  workspaceId: string;
+  sources: SourceSpec[];
+  destinations: DestinationSpec[];
+  connections: ConnectionSpec[];
+};
+
+type Kind = "source" | "destination" | "connection";
+
+export type PlanStep = {
+  kind: Kind;
+  name: string;
+  action: "create" | "update" | "unchanged" | "conflict";
+  id: string | null; // existing resource id
+  changes: string[]; // changed field paths for updates, reason for conflicts
+};
+
+type Remote = Record<string, any>;
+
+export type WorkspaceResources = {
+  sources: Remote[];
+  destinations: Remote[];
+  connections: Remote[];
+};
+
+// `${VAR}` in any string is replaced from the environment so secrets stay out of the spec.
+function interpolate(value: unknown, missing: Set<string>): unknown {
+  if (typeof value === "string") {
+    return value.replace(/\$\{(\w+)\}/g, (_, name: string) => {
+      const v = process.env[name];
+      if (v === undefined) missing.add(name);
+      return v ?? "";
+    });
+  }
+  if (Array.isArray(value)) return value.map((v) => interpolate(v, missing));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, interpolate(v, missing)]));
+  }
+  return value;
+}
+
+function assertUniqueNames(kind: Kind, items: { name: string }[]) {
+  const seen = new Set<string>();
+  for (const item of items) {
+    if (!item?.name) throw new Error(`Every ${kind} in the spec needs a name`);
+    if (seen.has(item.name)) throw new Error(`Duplicate ${kind} name in spec: ${item.name}`);
+    seen.add(item.name);
+  }
+}
+
+export function loadSpec(file: string): ProvisioningSpec {
+  const raw = fs.readFileSync(file, "utf8");
+  const parsed = /\.json$/i.test(file) ? JSON.parse(raw) : Bun.YAML.parse(raw);
+  const missing = new Set<string>();
+  const spec = interpolate(parsed, missing) as Partial<ProvisioningSpec>;
+  if (missing.size > 0) {
+    throw new Error(`Spec ${file} references unset env vars: ${[...missing].join(", ")}`);
+  }
+
+  const result: ProvisioningSpec = {
+    workspaceId: spec.workspaceId || process.env.AIRBYTE_WORKSPACE_ID || "",
+    sources: spec.sources ?? [],
+    destinations: spec.destinations ?? [],
+    connections: spec.connections ?? [],
+  };
+  if (!result.workspaceId)
+    throw new Error("Spec has no workspaceId and AIRBYTE_WORKSPACE_ID is unset");
+  assertUniqueNames("source", result.sources);
+  assertUniqueNames("destination", result.destinations);
+  assertUniqueNames("connection", result.connections);
+  for (const connection of result.connections) {
+    if (!result.sources.some((s) => s.name === connection.source)) {
+      throw new Error(
+        `Connection ${connection.name} references unknown source ${connection.source}`,
+      );
+    }
+    if (!result.destinations.some((d) => d.name === connection.destination)) {
+      throw new Error(
+        `Connection ${connection.name} references unknown destination ${connection.destination}`,
+      );
+    }
+  }
+  return result;
+}
+
+async function listAll(api: AirbyteApi, resource: string, workspaceId: string): Promise<Remote[]> {
+  const items: Remote[] = [];
+  const limit = 100;
+  for (let offset = 0; ; offset += limit) {
+    const query = new URLSearchParams({
+      workspaceIds: workspaceId,
+      limit: String(limit),
+      offset: String(offset),
+    });
+    const { data = [] } = await api<{ data?: Remote[] }>("GET", `${resource}?${query}`);
+    items.push(...data);
+    if (data.length < limit) return items;
+  }
+}
+
+export async function fetchWorkspace(
+  api: AirbyteApi,
+  workspaceId: string,
+): Promise<WorkspaceResources> {
+  return {
+    sources: await listAll(api, "sources", workspaceId),
+    destinations: await listAll(api, "destinations", workspaceId),
+    connections: await listAll(api, "connections", workspaceId),
+  };
+}
+
+const FORMATS: Record<NonNullable<DestinationSpec["format"]>, Record<string, unknown>> = {
+  jsonl: { format_type: "JSONL" },
+  csv: { format_type: "CSV", flattening: "No flattening" },
+  parquet: { format_type: "Parquet" },
+  avro: { format_type: "Avro" },
+};
+
+function sourceBody(spec: SourceSpec) {
+  return { name: spec.name, configuration: { sourceType: spec.type, ...spec.configuration } };
+}
+
+function destinationBody(spec: DestinationSpec) {
+  return {
+    name: spec.name,
+    configuration: {
+      destinationType: "s3",
+      s3_bucket_name: spec.bucket,
+      s3_bucket_path: spec.prefix,
+      s3_bucket_region: spec.region,
+      format: FORMATS[spec.format ?? "jsonl"],
+      ...spec.configuration,
+    },
+  };
+}
+
+const streamOf = (stream: StreamSpec) =>
+  typeof stream === "string"
+    ? { name: stream, syncMode: "full_refresh_overwrite" }
+    : { name: stream.name, syncMode: stream.syncMode ?? "full_refresh_overwrite" };
+
+const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+
+function connectionBody(spec: ConnectionSpec) {
+  const schedule =
+    !spec.schedule || spec.schedule === "manual"
+      ? { scheduleType: "manual" }
+      : { scheduleType: "cron", cronExpression: spec.schedule.cron };
+  return {
+    name: spec.name,
+    schedule,
+    status: spec.status ?? "active",
+    ...(spec.streams
+      ? { configurations: { streams: spec.streams.map(streamOf).sort(byName) } }
+      : {}),
+  };
+}
+
+// Airbyte masks secrets in responses, so masked values can never be compared.
+const MASKED = /^\*+$/;
+
+// Paths of fields in `desired` that differ from `actual`; fields only on the remote are ignored.
+export function diffFields(desired: unknown, actual: unknown, path = ""): string[] {
+  if (Array.isArray(desired)) {
+    return JSON.stringify(desired) === JSON.stringify(actual) ? [] : [path];
+  }
+  if (desired && typeof desired === "object") {
+    if (!actual || typeof actual !== "object" || Array.isArray(actual)) return [path];
+    return Object.entries(desired).flatMap(([key, value]) =>
+      diffFields(value, (actual as Remote)[key], path ? `${path}.${key}` : key),
+    );
+  }
+  if (typeof actual === "string" && MASKED.test(actual)) return [];
+  return desired === actual ? [] : [path];
+}
+
+function remoteSource(remote: Remote) {
+  return {
+    name: remote.name,
+    configuration: { sourceType: remote.sourceType, ...remote.configuration },
+  };
+}
+
+function remoteDestination(remote: Remote) {
+  return {
+    name: remote.name,
+    configuration: { destinationType: remote.destinationType, ...remote.configuration },
+  };
+}
+
+function remoteConnection(remote: Remote) {
+  const streams = (remote.configurations?.streams ?? []) as Remote[];
+  return {
+    ...remote,
+    configurations: {
+      streams: streams.map((s) => ({ name: s.name, syncMode: s.syncMode })).sort(byName),
+    },
+  };
+}
+
+function step(
+  kind: Kind,
+  name: string,
+  remote: Remote | undefined,
+  id: string | undefined,
+  changes: string[],
+): PlanStep {
+  if (!remote) return { kind, name, action: "create", id: null, changes: [] };
+  return {
+    kind,
+    name,
+    action: changes.length > 0 ? "update" : "unchanged",
+    id: id ?? null,
+    changes,
+  };
+}
+
+// Resources are matched to the spec by name within the workspace.
+export function planProvisioning(spec: ProvisioningSpec, existing: WorkspaceResources): PlanStep[] {
+  const plan: PlanStep[] = [];
+
+  for (const source of spec.sources) {
+    const remote = existing.sources.find((r) => r.name === source.name);
+    const changes = remote ? diffFields(sourceBody(source), remoteSource(remote)) : [];
+    plan.push(step("source", source.name, remote, remote?.sourceId, changes));
+  }
+
+  for (const destination of spec.destinations) {
+    const remote = existing.destinations.find((r) => r.name === destination.name);
+    const changes = remote
+      ? diffFields(destinationBody(destination), remoteDestination(remote))
+      : [];
+    plan.push(step("destination", destination.name, remote, remote?.destinationId, changes));
+  }
+
+  for (const connection of spec.connections) {
+    const remote = existing.connections.find((r) => r.name === connection.name);
+    if (!remote) {
+      plan.push(step("connection", connection.name, undefined, undefined, []));
+      continue;
+    }
+    const sourceId = existing.sources.find((r) => r.name === connection.source)?.sourceId;
+    const destinationId = existing.destinations.find(
+      (r) => r.name === connection.destination,
+    )?.destinationId;
+    if (remote.sourceId !== sourceId || remote.destinationId !== destinationId) {
+      plan.push({
+        kind: "connection",
+        name: connection.name,
+        action: "conflict",
+        id: remote.connectionId,
+        changes: ["source/destination differ; Airbyte cannot move a connection, recreate it"],
+      });
+      continue;
+    }
+    const changes = diffFields(connectionBody(connection), remoteConnection(remote));
+    plan.push(step("connection", connection.name, remote, remote.connectionId, changes));
+  }
+
+  return plan;
+}
+
+export function formatPlan(plan: PlanStep[]): string {
+  const symbol = { create: "+", update: "~", unchanged: "=", conflict: "!" } as const;
+  const lines = plan.map((s) => {
+    const detail = s.changes.length > 0 ? ` (${s.changes.join(", ")})` : "";
+    return `${symbol[s.action]} ${s.kind} ${s.name}${s.id ? ` [${s.id}]` : ""}${detail}`;
+  });
+  const count = (action: PlanStep["action"]) => plan.filter((s) => s.action === action).length;
+  lines.push(
+    `Plan: ${count("create")} to create, ${count("update")} to update, ` +
+      `${count("unchanged")} unchanged, ${count("conflict")} conflict(s)`,
+  );
+  return lines.join("\n");
+}
+
+// Applies the plan in dependency order; returns the id of every resource by `<kind>:<name>`.
+export async function applyPlan(
+  api: AirbyteApi,
+  spec: ProvisioningSpec,
+  plan: PlanStep[],
+): Promise<Map<string, string>> {
+  const conflicts = plan.filter((s) => s.action === "conflict");
+  if (conflicts.length > 0) {
+    throw new Error(`Refusing to apply with conflicts: ${conflicts.map((s) => s.name).join(", ")}`);
+  }
+
+  const ids = new Map<string, string>();
+  const workspace = { workspaceId: spec.workspaceId };
+  const stepFor = (kind: Kind, name: string) =>
+    plan.find((s) => s.kind === kind && s.name === name)!;
+
+  // `createOnly` fields are sent on create but cannot be changed by a PATCH
+  const upsert = async (
+    kind: Kind,
+    name: string,
+    path: string,
+    idField: string,
+    body: object,
+    createOnly: object,
+  ) => {
+    const planned = stepFor(kind, name);
+    if (planned.action === "unchanged") {
+      ids.set(`${kind}:${name}`, planned.id!);
+      return;
+    }
+    const result =
+      planned.action === "create"
+        ? await api<Remote>("POST", path, { ...createOnly, ...body })
+        : await api<Remote>("PATCH", `${path}/${planned.id}`, body);
+    const id = String(result[idField] ?? planned.id);
+    ids.set(`${kind}:${name}`, id);
+    console.log(`${planned.action === "create" ? "Created" : "Updated"} ${kind} ${name} [${id}]`);
+  };
+
+  for (const source of spec.sources) {
+    await upsert("source", source.name, "sources", "sourceId", sourceBody(source), workspace);
+  }
+  for (const destination of spec.destinations) {
+    await upsert(
+      "destination",
+      destination.name,
+      "destinations",
+      "destinationId",
+      destinationBody(destination),
+      workspace,
+    );
+  }
+  for (const connection of spec.connections) {
+    await upsert(
+      "connection",
+      connection.name,
+      "connections",
+      "connectionId",
+      connectionBody(connection),
+      {
+        sourceId: ids.get(`source:${connection.source}`),
+        destinationId: ids.get(`destination:${connection.destination}`),
+      },
+    );
+  }
+
+  return ids;
+}
@@ -0,0 +1,60 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { groupRuns, listAllObjects, resolveSyncIds, selectRuns } from "./airbyteRuns";
+import { writeDocumentDeadLetter, type DocumentDeadLetter } from "./deadLetters";
+import { localDirectoryStorage } from "./storage";
+import { planSync, recordObject, type SyncState } from "./syncState";
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "airbyte-runs-"));
+const storage = localDirectoryStorage(root);
+
+const letter: DocumentDeadLetter = {
+  version: 1,
+  kind: "document",
+  stage: "ingest",
+  error: "boom",
+  source: { bucket: root, key: "raw/files/report.pdf" },
+  workspaceId: "ws",
+  metadata: {},
+  attempts: 1,
+  failedAt: new Date().toISOString(),
+};
+
+afterAll(() => fs.rmSync(root, { recursive: true, force: true }));
+
+describe("listAllObjects", () => {
+  test("keeps dead letters under the Airbyte prefix out of the runs", async () => {
+    const record = { _airbyte_meta: { sync_id: 41 }, _airbyte_data: { id: "doc" } };
+    await storage.put("raw/files/docs.jsonl", `${JSON.stringify(record)}\n`);
+    await storage.put("raw/files/report.pdf", "%PDF-1.4");
+    await storage.put("raw/files/report.pdf.airbyte_meta.json", JSON.stringify({ sync_id: 41 }));
+    // Written after the Airbyte output, so it would be the newest run
+    await writeDocumentDeadLetter(storage, "raw/dead-letters/", letter);
+
+    const listed = await listAllObjects(storage, "raw/", ["raw/dead-letters/"]);
+    const runs = groupRuns(await resolveSyncIds(storage, "raw/", listed));
+    expect(runs.map((r) => r.syncId)).toEqual(["41"]);
+    const latest = selectRuns(runs, { mode: "latest" });
+    expect(latest[0]!.objects.map((o) => o.key)).toEqual([
+      "raw/files/docs.jsonl",
+      "raw/files/report.pdf",
+    ]);
+
+    // Replay removing the letter later must not show up as a deletion either
+    const state: SyncState = { version: 1, objects: {} };
+    for (const object of listed.objects) recordObject(state, object, "indexed");
+    await storage.delete("raw/dead-letters/ws/documents/raw_files_report.pdf.json");
+    const relisted = await listAllObjects(storage, "raw/", ["raw/dead-letters/"]);
+    expect(planSync(state, relisted.objects, relisted.objects, true).removed).toEqual([]);
+  });
+
+  test("lists the dead letters as a folder run without the exclusion", async () => {
+    await writeDocumentDeadLetter(storage, "raw/dead-letters/", letter);
+    const runs = groupRuns(
+      await resolveSyncIds(storage, "raw/", await listAllObjects(storage, "raw/")),
+    );
+    expect(runs.map((r) => r.syncId).sort()).toEqual(["41", "folder:dead-letters"]);
+  });
+});
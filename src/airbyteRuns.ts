@@ -0,0 +1,175 @@
+import { isJsonlKey, readJsonlLines } from "./jsonlReader";
+import { readObject, type Storage } from "./storage";
+import type { ListedObject } from "./syncState";
+
+export const SIDECAR_SUFFIX = ".airbyte_meta.json";
+
+export type RunObject = ListedObject & {
+  syncId: string;
+  syncIdSource: "sidecar" | "record" | "folder";
+};
+
+export type AirbyteRun = {
+  syncId: string; // Airbyte sync id, or `folder:<name>` when no metadata names one
+  source: RunObject["syncIdSource"];
+  objects: RunObject[];
+  firstModified: Date | null;
+  lastModified: Date | null;
+};
+
+export type RunSelection =
+  | { mode: "latest" }
+  | { mode: "all" }
+  | { mode: "sync"; syncId: string }
+  | { mode: "since"; since: Date };
+
+export type ListedPrefix = {
+  objects: ListedObject[]; // data objects, sidecars excluded
+  sidecars: Set<string>; // keys of `<key>.airbyte_meta.json` sidecars
+};
+
+// `exclude` names prefixes under `prefix` that hold our own output rather than Airbyte's (e.g.
+// dead letters), so they never form a run of their own.
+export async function listAllObjects(
+  storage: Storage,
+  prefix: string,
+  exclude: string[] = [],
+): Promise<ListedPrefix> {
+  const objects: ListedObject[] = [];
+  const sidecars = new Set<string>();
+  for (const item of await storage.list(prefix)) {
+    if (exclude.some((excluded) => item.key.startsWith(excluded))) continue;
+    if (item.key.endsWith(SIDECAR_SUFFIX)) sidecars.add(item.key);
+    else objects.push(item);
+  }
+  return { objects, sidecars };
+}
+
+function syncIdOf(meta: unknown): string | null {
+  const m = meta as { sync_id?: unknown; _airbyte_meta?: { sync_id?: unknown } } | null;
+  const id = m?.sync_id ?? m?._airbyte_meta?.sync_id;
+  return typeof id === "number" || typeof id === "string" ? String(id) : null;
+}
+
+async function readSidecarSyncId(storage: Storage, key: string) {
+  try {
+    const body = (await readObject(storage, key)).toString("utf8");
+    return body ? syncIdOf(JSON.parse(body)) : null;
+  } catch {
+    return null;
+  }
+}
+
+// JSONL records carry `_airbyte_meta.sync_id`; the first record is enough, so only the head of
+// the object is fetched. A compressed head is not text, so those are read through the
+// decompressing reader up to their first record instead.
+async function readRecordSyncId(storage: Storage, key: string) {
+  try {
+    if (!/\.jsonl$/i.test(key)) {
+      for await (const { value } of readJsonlLines(storage, key)) return syncIdOf(value);
+      return null;
+    }
+    const head = (await readObject(storage, key, { start: 0, end: 65535 })).toString("utf8");
+    const match = head.match(/"_airbyte_meta"\s*:\s*\{[^{}]*?"sync_id"\s*:\s*"?([\w-]+)"?/);
+    return match?.[1] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function runFolder(prefix: string, key: string): string {
+  const withoutPrefix = key.startsWith(prefix) ? key.slice(prefix.length) : key;
+  return withoutPrefix.split("/").filter(Boolean)[0] ?? "__root__";
+}
+
+// Resolves each object's sync id from its sidecar, then its first JSONL record, then falls back
+// to the first path segment under the prefix (the old run-folder heuristic).
+export async function resolveSyncIds(
+  storage: Storage,
+  prefix: string,
+  listed: ListedPrefix,
+  concurrency = 8,
+): Promise<RunObject[]> {
+  const resolved: RunObject[] = new Array(listed.objects.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < listed.objects.length) {
+      const idx = next++;
+      const entry = listed.objects[idx]!;
+      const sidecarKey = `${entry.key}${SIDECAR_SUFFIX}`;
+      let syncId: string | null = null;
+      let syncIdSource: RunObject["syncIdSource"] = "folder";
+      if (listed.sidecars.has(sidecarKey)) {
+        syncId = await readSidecarSyncId(storage, sidecarKey);
+        syncIdSource = "sidecar";
+      }
+      if (!syncId && isJsonlKey(entry.key)) {
+        syncId = await readRecordSyncId(storage, entry.key);
+        syncIdSource = "record";
+      }
+      if (!syncId) {
+        syncId = `folder:${runFolder(prefix, entry.key)}`;
+        syncIdSource = "folder";
+      }
+      resolved[idx] = { ...entry, syncId, syncIdSource };
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker));
+  return resolved;
+}
+
+// Oldest first, ordered by the newest object in each run.
+export function groupRuns(objects: RunObject[]): AirbyteRun[] {
+  const runs = new Map<string, AirbyteRun>();
+  for (const object of objects) {
+    const run = runs.get(object.syncId) ?? {
+      syncId: object.syncId,
+      source: object.syncIdSource,
+      objects: [],
+      firstModified: null,
+      lastModified: null,
+    };
+    run.objects.push(object);
+    const modified = object.lastModified;
+    if (modified) {
+      if (!run.firstModified || modified < run.firstModified) run.firstModified = modified;
+      if (!run.lastModified || modified > run.lastModified) run.lastModified = modified;
+    }
+    runs.set(object.syncId, run);
+  }
+  const time = (run: AirbyteRun) => run.lastModified?.getTime() ?? 0;
+  return [...runs.values()].sort((a, b) => time(a) - time(b));
+}
+
+export function selectRuns(runs: AirbyteRun[], selection: RunSelection): AirbyteRun[] {
+  switch (selection.mode) {
+    case "all":
+      return runs;
+    case "latest":
+      return runs.slice(-1);
+    case "sync": {
+      const run = runs.find((r) => r.syncId === selection.syncId);
+      if (!run) {
+        throw new Error(
+          `No run with sync id ${selection.syncId} (available: ${runs.map((r) => r.syncId).join(", ") || "none"})`,
+        );
+      }
+      return [run];
+    }
+    case "since":
+      return runs.filter((r) => r.lastModified && r.lastModified >= selection.since);
+  }
+}
+
+export function describeSelection(selection: RunSelection): string {
+  switch (selection.mode) {
+    case "all":
+      return "all runs";
+    case "latest":
+      return "latest run";
+    case "sync":
+      return `sync ${selection.syncId}`;
+    case "since":
+      return `runs since ${selection.since.toISOString()}`;
+  }
+}
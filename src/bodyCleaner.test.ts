@@ -0,0 +1,170 @@
+import { describe, expect, test } from "bun:test";
+import { cleanEmailBody, htmlToText } from "./bodyCleaner";
+
+describe("htmlToText", () => {
+  test("writes links as text (url) and keeps only absolute ones", () => {
+    const html =
+      '<p>See <a href="https://example.com/plan">the plan</a>, ' +
+      '<a href="https://example.com">example.com</a>, ' +
+      '<a href="#top">top</a> and <a href="mailto:a@b.io">mail me</a>.</p>';
+    expect(htmlToText(html)).toBe(
+      "See the plan (https://example.com/plan), example.com, top and mail me.",
+    );
+  });
+
+  test("turns tables into cell rows and lists into dashes", () => {
+    const html =
+      "<table><tr><th>Item</th><th>Qty</th></tr><tr><td>Apples</td><td>3</td></tr></table>" +
+      "<ul><li>one</li><li>two</li></ul>";
+    expect(htmlToText(html)).toBe("Item | Qty\nApples | 3\n\n- one\n- two");
+  });
+
+  test("drops tracking pixels, scripts and preheader padding but keeps alt text", () => {
+    const html =
+      "<style>p{color:red}</style><p>Hello\u200b\u200c&nbsp;there</p>" +
+      '<img src="https://t.example.com/open.gif" width="1" height="1">' +
+      '<p><img src="logo.png" alt="Acme logo"></p><script>track()</script>';
+    expect(htmlToText(html)).toBe("Hello there\n\n[Acme logo]");
+  });
+
+  test("marks blockquotes as > lines", () => {
+    expect(htmlToText("<p>Yes.</p><blockquote><p>Ready?</p></blockquote>")).toBe(
+      "Yes.\n\n> Ready?",
+    );
+  });
+});
+
+describe("cleanEmailBody", () => {
+  test("cuts the quote after an On … wrote: attribution", () => {
+    const cleaned = cleanEmailBody(
+      "Sounds good.\n\nOn Mon, 3 Mar 2025 at 09:12, Ana Silva <ana@example.com>\nwrote:\n> Ship it?",
+      "text/plain",
+    );
+    expect(cleaned.text).toBe("Sounds good.");
+    expect(cleaned.quoted).toBe(
+      "On Mon, 3 Mar 2025 at 09:12, Ana Silva <ana@example.com>\nwrote:\n> Ship it?",
+    );
+  });
+
+  test("cuts a trailing run of > lines", () => {
+    const cleaned = cleanEmailBody(
+      "Yes, Friday.\n\n> Can we meet?\n> Any day works.",
+      "text/plain",
+    );
+    expect(cleaned.text).toBe("Yes, Friday.");
+    expect(cleaned.quoted).toBe("> Can we meet?\n> Any day works.");
+  });
+
+  test("cuts an Outlook header block and an Original Message separator", () => {
+    const outlook = cleanEmailBody(
+      "Approved.\n\nFrom: Ana Silva <ana@example.com>\nSent: Monday, March 3, 2025 9:12 AM\n" +
+        "To: Team\nSubject: Budget\n\nPlease approve.",
+      "text/plain",
+    );
+    expect(outlook.text).toBe("Approved.");
+    expect(outlook.quoted).toStartWith("From: Ana Silva");
+
+    const separator = cleanEmailBody(
+      "Done.\n\n-----Original Message-----\nPlease do it.",
+      "text/plain",
+    );
+    expect(separator.text).toBe("Done.");
+    expect(separator.quoted).toBe("-----Original Message-----\nPlease do it.");
+  });
+
+  test("cuts an HTML blockquote reply", () => {
+    const cleaned = cleanEmailBody(
+      "<div>Works for me.</div><div>On Mon, Ana wrote:</div><blockquote>Lunch at 1?</blockquote>",
+      "text/html",
+    );
+    expect(cleaned.text).toBe("Works for me.");
+    expect(cleaned.quoted).toBe("On Mon, Ana wrote:\n\n> Lunch at 1?");
+  });
+
+  test("splits a -- signature and a mobile footer", () => {
+    const dashed = cleanEmailBody("See attached.\n\n--\nAna Silva\nHead of Ops", "text/plain");
+    expect(dashed.text).toBe("See attached.");
+    expect(dashed.signature).toBe("--\nAna Silva\nHead of Ops");
+
+    const mobile = cleanEmailBody("On my way.\n\nSent from my iPhone", "text/plain");
+    expect(mobile.text).toBe("On my way.");
+    expect(mobile.signature).toBe("Sent from my iPhone");
+  });
+
+  test("keeps the valediction and splits the name block after it", () => {
+    const cleaned = cleanEmailBody(
+      "Invoice attached.\n\nBest regards,\nAna Silva\nHead of Ops | Acme\n+61 2 9374 4000",
+      "text/plain",
+    );
+    expect(cleaned.text).toBe("Invoice attached.\n\nBest regards,");
+    expect(cleaned.signature).toBe("Ana Silva\nHead of Ops | Acme\n+61 2 9374 4000");
+  });
+
+  test("keeps a closing sentence that mentions one disclaimer keyword", () => {
+    const body = [
+      "Hi team,",
+      "",
+      "The new digest settings shipped this morning.",
+      "",
+      "Customers can unsubscribe from the digest in settings now, which was the main ask.",
+      "",
+      "Ana",
+    ].join("\n");
+    const cleaned = cleanEmailBody(body, "text/plain");
+    expect(cleaned.text).toContain("Customers can unsubscribe from the digest in settings now");
+    expect(cleaned.signature).toBeNull();
+  });
+
+  test("keeps a last paragraph that only calls something confidential", () => {
+    const body = "Numbers attached.\n\nPlease keep the Q3 forecast confidential until Friday.";
+    expect(cleanEmailBody(body, "text/plain").text).toBe(body);
+  });
+
+  test("moves a trailing legal disclaimer to the signature", () => {
+    const disclaimer =
+      "This email is confidential and may be privileged. If you have received this email in " +
+      "error, please notify the sender and delete it.";
+    const cleaned = cleanEmailBody(`See you at 3pm.\n\n${disclaimer}`, "text/plain");
+    expect(cleaned.text).toBe("See you at 3pm.");
+    expect(cleaned.signature).toBe(disclaimer);
+  });
+
+  test("moves a newsletter footer to the signature", () => {
+    const cleaned = cleanEmailBody(
+      "This week's roundup is below.\n\nUnsubscribe | Manage your email preferences",
+      "text/plain",
+    );
+    expect(cleaned.text).toBe("This week's roundup is below.");
+    expect(cleaned.signature).toBe("Unsubscribe | Manage your email preferences");
+  });
+
+  test("keeps forwarded content in the text", () => {
+    const body = [
+      "FYI",
+      "",
+      "---------- Forwarded message ---------",
+      "From: Ana Silva <ana@example.com>",
+      "Date: Mon, 3 Mar 2025 at 09:12",
+      "Subject: Rollout plan",
+      "To: Team <team@example.com>",
+      "",
+      "The plan is X.",
+    ].join("\n");
+    const cleaned = cleanEmailBody(body, "text/plain");
+    expect(cleaned.text).toBe(body);
+    expect(cleaned.quoted).toBeNull();
+  });
+
+  test("still splits a reply above a forward", () => {
+    const body = [
+      "Agreed.",
+      "",
+      "On Tue, 4 Mar 2025 at 10:00, Ana Silva <ana@example.com> wrote:",
+      "> ---------- Forwarded message ---------",
+      "> The plan is X.",
+    ].join("\n");
+    const cleaned = cleanEmailBody(body, "text/plain");
+    expect(cleaned.text).toBe("Agreed.");
+    expect(cleaned.quoted).toContain("The plan is X.");
+  });
+});
@@ -0,0 +1,195 @@
+import { decodeEntities } from "./localPartitioner";
+
+export type CleanedBody = {
+  text: string; // readable text of this message only
+  quoted: string | null; // earlier messages the reply quoted
+  signature: string | null; // signature block and trailing disclaimers
+};
+
+const QUOTE_START = "\u0001quote\u0001";
+const QUOTE_END = "\u0001/quote\u0001";
+const CELL = "\u0001cell\u0001";
+// Zero-width and soft-hyphen characters newsletters use to pad the inbox preview
+const INVISIBLE = /[\u00ad\u034f\u200b-\u200f\u2060\ufeff]/g;
+const BLOCK_TAGS = "p|div|table|ul|ol|section|article|header|footer|center|hr|h[1-6]";
+
+function attr(tag: string, name: string): string | undefined {
+  const match = new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i").exec(tag);
+  return match ? (match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+// `text (url)`, or just one of them when the other adds nothing
+function link(attrs: string, inner: string): string {
+  const text = inner.replace(/<[^>]+>/g, "").trim();
+  const href = attr(attrs, "href")?.trim();
+  // Only absolute links are worth keeping; anchors, mailto: and relative paths go nowhere useful
+  if (!href || !/^https?:\/\//i.test(href)) return text;
+  if (!text) return href;
+  const bare = (url: string) => url.replace(/^[a-z]+:\/\//i, "").replace(/\/$/, "");
+  return bare(decodeEntities(text)) === bare(decodeEntities(href)) ? text : `${text} (${href})`;
+}
+
+// Text with line structure: links as `text (url)`, table rows as `cell | cell`, list items as
+// `- item` and blockquotes as `> ` lines. Images only leave their alt text, which drops tracking
+// pixels.
+export function htmlToText(html: string): string {
+  const text = decodeEntities(
+    html
+      .replace(/<!--[\s\S]*?-->/g, "")
+      .replace(/<(script|style|head|noscript|title)[^>]*>[\s\S]*?<\/\1>/gi, "")
+      .replace(/<pre\b[^>]*>([\s\S]*?)<\/pre>/gi, (_, body: string) =>
+        body.replace(/\r?\n/g, "<br>"),
+      )
+      .replace(/\s+/g, " ")
+      .replace(/<img\b[^>]*>/gi, (tag) => {
+        const alt = attr(tag, "alt")?.trim();
+        return alt ? ` [${alt}] ` : "";
+      })
+      .replace(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi, (_, attrs: string, inner: string) =>
+        link(attrs, inner),
+      )
+      .replace(/<blockquote\b[^>]*>/gi, `\n${QUOTE_START}\n`)
+      .replace(/<\/blockquote>/gi, `\n${QUOTE_END}\n`)
+      .replace(/<li\b[^>]*>/gi, "\n- ")
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/t[dh]>/gi, CELL)
+      .replace(/<tr\b[^>]*>/gi, "")
+      .replace(/<\/tr>/gi, "\n")
+      .replace(new RegExp(`</?(${BLOCK_TAGS})\\b[^>]*>`, "gi"), "\n")
+      .replace(/<[^>]+>/g, ""),
+  );
+
+  const lines: string[] = [];
+  let depth = 0;
+  for (const raw of text.split("\n")) {
+    const line = raw.trim();
+    if (line === QUOTE_START) {
+      depth += 1;
+      continue;
+    }
+    if (line === QUOTE_END) {
+      depth = Math.max(0, depth - 1);
+      continue;
+    }
+    const content = line
+      .split(CELL)
+      .map((cell) => cell.replace(INVISIBLE, "").replace(/ {2,}/g, " ").trim())
+      .filter(Boolean)
+      .join(" | ");
+    lines.push(content && depth > 0 ? `${"> ".repeat(depth)}${content}` : content);
+  }
+  return tidy(lines);
+}
+
+const tidy = (lines: string[]) =>
+  lines
+    .join("\n")
+    .replace(/[ \t]+$/gm, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+const ATTRIBUTION = [
+  /^On\b.{0,300}\bwrote:$/i,
+  /^Le\b.{0,300}\ba écrit ?:$/i,
+  /^Am\b.{0,300}\bschrieb\b.{0,120}:$/i,
+  /^El\b.{0,300}\bescribió:$/i,
+];
+const SEPARATOR = /^-{2,} ?(Original Message|Original|Reply Message) ?-{2,}$/i;
+// Gmail and Apple Mail forwards. What follows is content the sender chose to pass on, not a quote,
+// even though it opens with a From:/Date:/Subject: block like an Outlook reply.
+const FORWARD = /^(-{2,} ?Forwarded message ?-{2,}|Begin forwarded message:)$/i;
+const OUTLOOK_FROM = /^\*?(From|De|Von):\*? /i;
+const OUTLOOK_FIELD = /^\*?(Sent|Date|To|Subject|Envoyé|Gesendet|Objet|Betreff):\*? /i;
+
+// Where the quoted part of a reply starts: an "On … wrote:" attribution (possibly wrapped onto
+// a second line), an "Original Message" separator, an Outlook From:/Sent:/To: header block, or a
+// trailing run of `>` lines. Nothing after a forward separator counts as quoted.
+function quoteStart(lines: string[]): number {
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!.trim();
+    if (FORWARD.test(line)) return lines.length;
+    const joined = `${line} ${lines[i + 1]?.trim() ?? ""}`.trim();
+    if (ATTRIBUTION.some((re) => re.test(line) || re.test(joined))) {
+      return i;
+    }
+    if (SEPARATOR.test(line)) return i;
+    if (OUTLOOK_FROM.test(line)) {
+      const fields = lines.slice(i + 1, i + 5).filter((l) => OUTLOOK_FIELD.test(l.trim()));
+      if (fields.length >= 2) return i > 0 && /^_{5,}$/.test(lines[i - 1]!.trim()) ? i - 1 : i;
+    }
+  }
+  let start = lines.length;
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const line = lines[i]!.trim();
+    if (line.startsWith(">")) start = i;
+    else if (line) break;
+  }
+  return start;
+}
+
+// A trailing paragraph is a disclaimer or footer when it has at least two of these; one alone
+// ("you can unsubscribe in settings") is as likely to be the sender's own closing sentence.
+const DISCLAIMER_PHRASES = [
+  /confidential/i,
+  /privileged/i,
+  /intended (solely |only )?for the (use of the )?(addressee|recipient|individual)/i,
+  /received this (e-?mail|message|communication) in error/i,
+  /unsubscribe/i,
+  /manage (your )?(e-?mail )?preferences/i,
+  /do not reply to this (e-?mail|message)/i,
+];
+const isDisclaimer = (text: string) => DISCLAIMER_PHRASES.filter((re) => re.test(text)).length >= 2;
+const SIGNATURE_DELIMITER = /^(--|__+|—)$/;
+const MOBILE_SIGNATURE = /^(Sent from my |Sent from (Mail|Outlook|Yahoo)|Get Outlook for )/i;
+const VALEDICTION =
+  /^(thanks|thank you|many thanks|cheers|best|regards|best regards|kind regards|warm regards|sincerely|all the best)[,!.]?$/i;
+
+// Splits trailing disclaimers, a `-- ` signature, "Sent from my …" lines, and the short name/title
+// block that follows a closing such as "Best regards," (the closing itself stays in the text).
+function splitSignature(lines: string[]): { body: string[]; signature: string[] } {
+  let body = [...lines];
+  const signature: string[] = [];
+  const cut = (at: number) => {
+    signature.unshift(...body.slice(at));
+    body = body.slice(0, at);
+  };
+
+  for (;;) {
+    while (body.length > 0 && !body[body.length - 1]!.trim()) body.pop();
+    const blank = body.map((l) => l.trim()).lastIndexOf("");
+    if (blank <= 0 || !isDisclaimer(body.slice(blank).join(" "))) break;
+    cut(blank);
+  }
+
+  const delimiter = body.findLastIndex((l) => SIGNATURE_DELIMITER.test(l.trim()));
+  if (delimiter > 0 && body.length - delimiter <= 20) cut(delimiter);
+
+  const mobile = body.findIndex((l) => MOBILE_SIGNATURE.test(l.trim()));
+  if (mobile > 0) cut(mobile);
+
+  const tailStart = Math.max(1, body.length - 8);
+  const closing = body.findLastIndex((l, i) => i >= tailStart && VALEDICTION.test(l.trim()));
+  if (closing > 0) {
+    const after = body.slice(closing + 1).filter((l) => l.trim());
+    if (after.length > 0 && after.length <= 6 && after.every((l) => l.trim().length <= 60)) {
+      cut(closing + 1);
+    }
+  }
+
+  return { body, signature };
+}
+
+export function cleanEmailBody(body: string, mime: "text/html" | "text/plain"): CleanedBody {
+  const full = mime === "text/html" ? htmlToText(body) : tidy(body.split(/\r?\n/));
+  const lines = full.split("\n");
+  const start = quoteStart(lines);
+  const { body: own, signature } = splitSignature(lines.slice(0, start));
+  const text = tidy(own);
+  const quoted = tidy(lines.slice(start));
+  return {
+    // A message that is only a quote (e.g. a bare forward) keeps its full text
+    text: text || full,
+    quoted: quoted || null,
+    signature: tidy(signature) || null,
+  };
+}
@@ -0,0 +1,73 @@
+import fs from "node:fs";
+import path from "node:path";
+
+export type FileCheckpoint = {
+  etag: string | null; // a rewritten object (new etag) starts again from line 1
+  line: number; // every line up to and including this one is committed
+  updatedAt: string;
+};
+
+type CheckpointFile = { version: 1; files: Record<string, FileCheckpoint> };
+
+export type Checkpoints = {
+  // Lines to skip for the object, 0 when it is new or its etag changed
+  resumeAfter(key: string, etag: string | null): number;
+  commit(key: string, etag: string | null, line: number): void;
+  save(): void;
+};
+
+export function loadCheckpoints(file: string): Checkpoints {
+  const fullPath = path.resolve(file);
+  let state: CheckpointFile = { version: 1, files: {} };
+  try {
+    const parsed = JSON.parse(fs.readFileSync(fullPath, "utf8")) as CheckpointFile;
+    if (parsed?.version === 1 && parsed.files) state = parsed;
+  } catch {
+    // No checkpoints yet
+  }
+  let dirty = false;
+
+  return {
+    resumeAfter(key, etag) {
+      const checkpoint = state.files[key];
+      if (!checkpoint) return 0;
+      return checkpoint.etag === etag ? checkpoint.line : 0;
+    },
+    commit(key, etag, line) {
+      const current = state.files[key];
+      if (current && current.etag === etag && current.line >= line) return;
+      state.files[key] = { etag, line, updatedAt: new Date().toISOString() };
+      dirty = true;
+    },
+    save() {
+      if (!dirty) return;
+      const tmpPath = `${fullPath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(state, null, 2));
+      fs.renameSync(tmpPath, fullPath);
+      dirty = false;
+    },
+  };
+}
+
+// Lines of one file finish out of order under concurrency. The committed line is the highest one
+// below which every handed-out line succeeded; a failed line holds it back so the message is
+// retried on the next run.
+export function lineWatermark(startAfter: number) {
+  const inFlight = new Set<number>();
+  const failed = new Set<number>();
+  let highestDispatched = startAfter;
+  return {
+    dispatched(line: number) {
+      inFlight.add(line);
+      highestDispatched = Math.max(highestDispatched, line);
+    },
+    finished(line: number, ok: boolean) {
+      inFlight.delete(line);
+      if (!ok) failed.add(line);
+    },
+    committed(): number {
+      const blockers = [...inFlight, ...failed];
+      return blockers.length > 0 ? Math.min(...blockers) - 1 : highestDispatched;
+    },
+  };
+}
@@ -0,0 +1,165 @@
+export type ChunkStrategy = "element" | "title" | "window";
+
+export type ChunkingOptions = {
+  strategy: ChunkStrategy;
+  maxTokens: number; // upper bound per chunk for "title" and "window"
+  overlapTokens: number; // only used by "window"
+};
+
+export type PartitionElement = {
+  type?: string;
+  element_id?: string;
+  text?: string;
+  metadata?: { page_number?: number; parent_id?: string; [k: string]: unknown };
+  [k: string]: unknown;
+};
+
+export type Chunk = {
+  index: number;
+  text: string;
+  elementIndexes: number[]; // positions in the partition response
+  elementTypes: string[];
+  pageNumbers: number[];
+  parentTitle: string | null;
+};
+
+const STRATEGIES: ChunkStrategy[] = ["element", "title", "window"];
+
+export function loadChunkingOptions(): ChunkingOptions {
+  const strategy = (process.env.CHUNK_STRATEGY || "element").toLowerCase() as ChunkStrategy;
+  if (!STRATEGIES.includes(strategy)) {
+    throw new Error(`Unknown CHUNK_STRATEGY ${strategy} (expected ${STRATEGIES.join(", ")})`);
+  }
+  const maxTokens = Number(process.env.CHUNK_MAX_TOKENS || 512);
+  const overlapTokens = Number(process.env.CHUNK_OVERLAP_TOKENS || 64);
+  if (!(maxTokens > 0)) throw new Error("CHUNK_MAX_TOKENS must be a positive number");
+  if (!(overlapTokens >= 0 && overlapTokens < maxTokens)) {
+    throw new Error("CHUNK_OVERLAP_TOKENS must be >= 0 and smaller than CHUNK_MAX_TOKENS");
+  }
+  return { strategy, maxTokens, overlapTokens };
+}
+
+// Stored in the payload so collections built with different settings can be told apart.
+export function chunkSettingsId(opts: ChunkingOptions): string {
+  if (opts.strategy === "element") return "element";
+  if (opts.strategy === "title") return `title:${opts.maxTokens}`;
+  return `window:${opts.maxTokens}:${opts.overlapTokens}`;
+}
+
+// Rough token estimate (~4 chars per token for English); good enough for sizing chunks.
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const isTitle = (el: PartitionElement) => el.type === "Title";
+
+type Item = { text: string; elementIndex: number; element: PartitionElement; title: string | null };
+
+function toItems(elements: PartitionElement[]): Item[] {
+  const titlesById = new Map<string, string>();
+  let currentTitle: string | null = null;
+  const items: Item[] = [];
+  elements.forEach((element, elementIndex) => {
+    const text = typeof element.text === "string" ? element.text.trim() : "";
+    if (isTitle(element) && text) {
+      currentTitle = text;
+      if (element.element_id) titlesById.set(element.element_id, text);
+    }
+    if (!text) return;
+    const parentId = element.metadata?.parent_id;
+    const title = (parentId && titlesById.get(parentId)) || currentTitle;
+    items.push({ text, elementIndex, element, title });
+  });
+  return items;
+}
+
+function makeChunk(index: number, items: Item[], text?: string): Chunk {
+  const pages = new Set<number>();
+  for (const item of items) {
+    const page = item.element.metadata?.page_number;
+    if (typeof page === "number") pages.add(page);
+  }
+  return {
+    index,
+    text: text ?? items.map((i) => i.text).join("\n\n"),
+    elementIndexes: Array.from(new Set(items.map((i) => i.elementIndex))),
+    elementTypes: Array.from(new Set(items.map((i) => i.element.type ?? "Unknown"))),
+    pageNumbers: Array.from(pages).sort((a, b) => a - b),
+    parentTitle: items[0]?.title ?? null,
+  };
+}
+
+function chunkByElement(items: Item[]): Chunk[] {
+  return items.map((item, idx) => makeChunk(idx, [item]));
+}
+
+function chunkByTitle(items: Item[], maxTokens: number): Chunk[] {
+  const chunks: Chunk[] = [];
+  let current: Item[] = [];
+  let tokens = 0;
+  const flush = () => {
+    if (current.length > 0) chunks.push(makeChunk(chunks.length, current));
+    current = [];
+    tokens = 0;
+  };
+  for (const item of items) {
+    const itemTokens = estimateTokens(item.text);
+    const newSection = isTitle(item.element) || item.title !== current[0]?.title;
+    // A lone title always travels with the first element of its section
+    const titleOnly = current.length === 1 && isTitle(current[0]!.element);
+    if (newSection || (tokens + itemTokens > maxTokens && !titleOnly)) flush();
+    current.push(item);
+    tokens += itemTokens;
+  }
+  flush();
+  return chunks;
+}
+
+function chunkByWindow(items: Item[], maxTokens: number, overlapTokens: number): Chunk[] {
+  const words: Array<{ word: string; item: Item }> = [];
+  for (const item of items) {
+    for (const word of item.text.split(/\s+/).filter(Boolean)) words.push({ word, item });
+  }
+
+  const chunks: Chunk[] = [];
+  let start = 0;
+  while (start < words.length) {
+    let end = start;
+    let tokens = 0;
+    while (end < words.length) {
+      const next = estimateTokens(words[end]!.word) + 1;
+      if (tokens + next > maxTokens && end > start) break;
+      tokens += next;
+      end += 1;
+    }
+    const slice = words.slice(start, end);
+    chunks.push(
+      makeChunk(
+        chunks.length,
+        slice.map((w) => w.item),
+        slice.map((w) => w.word).join(" "),
+      ),
+    );
+    if (end >= words.length) break;
+
+    // Step back far enough to repeat roughly `overlapTokens` tokens in the next window
+    let back = end;
+    let overlap = 0;
+    while (back > start + 1 && overlap < overlapTokens) {
+      back -= 1;
+      overlap += estimateTokens(words[back]!.word) + 1;
+    }
+    start = back;
+  }
+  return chunks;
+}
+
+export function chunkElements(elements: PartitionElement[], opts: ChunkingOptions): Chunk[] {
+  const items = toItems(elements);
+  switch (opts.strategy) {
+    case "element":
+      return chunkByElement(items);
+    case "title":
+      return chunkByTitle(items, opts.maxTokens);
+    case "window":
+      return chunkByWindow(items, opts.maxTokens, opts.overlapTokens);
+  }
+}
@@ -1,12 +1,18 @@
+import type { StorageConfig } from "./storage";
+import { loadMessageFilters, type MessageFilters } from "./messageFilters";
+
 export type AppConfig = {
-  region: string;
-  bucket: string;
+  storage: StorageConfig; // the bucket, or a local directory laid out like it
   airbytePrefix: string;
   messagesPrefix: string;
   detailsPrefix: string;
   rawFilesPrefix: string;
+  deadLetterPrefix: string; // failed Gmail records, see src/deadLetters.ts
   workspaceId: string; // required
   connectorId: string; // required
+  connectorName: string; // connectors.name when the connector row is upserted
+  gmailAccessToken?: string; // optional; needed to download attachments by id
+  filters: MessageFilters; // GMAIL_INCLUDE_*/GMAIL_EXCLUDE_*/GMAIL_AFTER/GMAIL_BEFORE
 };
 
 const required = (name: string) => {
@@ -15,6 +21,25 @@ const required = (name: string) => {
   return v;
 };
 
+// Whole-number CLI flags and env settings; `source` names the flag or variable in the error.
+export function parseCount(value: string | undefined, source: string, min = 1): number {
+  const n = Number(value);
+  if (!value?.trim() || !Number.isInteger(n) || n < min) {
+    const expected = min === 0 ? "a non-negative integer" : `an integer of at least ${min}`;
+    throw new Error(`${source} must be ${expected}, got ${value ?? "nothing"}`);
+  }
+  return n;
+}
+
+// STORAGE_BACKEND=local reads and writes LOCAL_STORAGE_ROOT (default the current directory)
+// instead of the bucket, so AIRBYTE_S3_BUCKET and AWS credentials are not needed.
+export function loadStorageConfig(): StorageConfig {
+  const backend = process.env.STORAGE_BACKEND || "s3";
+  if (backend === "local") return { backend, root: process.env.LOCAL_STORAGE_ROOT || "." };
+  if (backend !== "s3") throw new Error(`Unknown STORAGE_BACKEND ${backend} (use s3 or local)`);
+  return { backend, bucket: required("AIRBYTE_S3_BUCKET"), region: required("AWS_REGION") };
+}
+
 export function loadConfig(): AppConfig {
   const airbytePrefix = process.env.AIRBYTE_S3_PREFIX || "raw/";
   const workspaceId = process.env.AIRBYTE_WORKSPACE_ID;
@@ -22,13 +47,16 @@ export function loadConfig(): AppConfig {
   const connectorId = process.env.AIRBYTE_CONNECTION_ID;
   if (!connectorId) throw new Error("Missing AIRBYTE_CONNECTION_ID");
   return {
-    region: required("AWS_REGION"),
-    bucket: required("AIRBYTE_S3_BUCKET"),
+    storage: loadStorageConfig(),
     airbytePrefix,
     messagesPrefix: process.env.MESSAGES_PREFIX || `${airbytePrefix}messages/`,
     detailsPrefix: process.env.DETAILS_PREFIX || `${airbytePrefix}messages_details/`,
     rawFilesPrefix: process.env.RAW_FILES_PREFIX || `${airbytePrefix}raw-files/`,
+    deadLetterPrefix: process.env.DEAD_LETTER_PREFIX || `${airbytePrefix}dead-letters/`,
     workspaceId,
     connectorId,
+    connectorName: process.env.CONNECTOR_NAME || "airbyte-gmail",
+    gmailAccessToken: process.env.GMAIL_ACCESS_TOKEN || undefined,
+    filters: loadMessageFilters(),
   };
 }
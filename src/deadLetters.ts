@@ -0,0 +1,114 @@
+import type { AppConfig } from "./config";
+import type { GmailMessage } from "./emailExtractor";
+import { readObject, type Storage } from "./storage";
+
+// Where a message was when it failed: parsing/building the .eml, writing it, running it through
+// processDocument, or storing/ingesting its attachments.
+export type FailureStage = "extract" | "upload" | "ingest" | "attachments";
+
+export type DeadLetter = {
+  version: 1;
+  messageId: string | null;
+  stage: FailureStage;
+  error: string;
+  source: { bucket: string; key: string; line: number | null };
+  options: { embed: boolean; ingestAttachments: boolean }; // replayed with the same pipeline
+  attempts: number;
+  failedAt: string;
+  record: GmailMessage; // the JSONL line exactly as Airbyte wrote it
+};
+
+// A Drive (or other file connector) object that processDocument failed on. The object stays where
+// Airbyte wrote it, so the letter points at it rather than copying it.
+export type DocumentDeadLetter = {
+  version: 1;
+  kind: "document";
+  stage: "ingest";
+  error: string;
+  source: { bucket: string; key: string };
+  workspaceId: string | null;
+  metadata: Record<string, unknown>; // passed to processDocument again on replay
+  attempts: number;
+  failedAt: string;
+};
+
+const deadLetterRoot = (config: AppConfig) =>
+  `${config.deadLetterPrefix}${config.workspaceId}/gmail/`;
+
+// One letter per message id, so a message that keeps failing overwrites its own letter. Records
+// without an id are keyed by where they were read from.
+export function deadLetterKey(config: AppConfig, letter: DeadLetter): string {
+  const name =
+    letter.messageId ??
+    `${letter.source.key.replace(/[\/\\]/g, "_")}-line-${letter.source.line ?? "unknown"}`;
+  return `${deadLetterRoot(config)}${name}.json`;
+}
+
+export async function writeDeadLetter(
+  storage: Storage,
+  config: AppConfig,
+  letter: DeadLetter,
+): Promise<string> {
+  const key = deadLetterKey(config, letter);
+  await storage.put(key, JSON.stringify(letter, null, 2), { contentType: "application/json" });
+  return key;
+}
+
+export async function listDeadLetters(storage: Storage, config: AppConfig): Promise<string[]> {
+  return (await storage.list(deadLetterRoot(config)))
+    .map((o) => o.key)
+    .filter((key) => key.endsWith(".json"));
+}
+
+export async function readDeadLetter(storage: Storage, key: string): Promise<DeadLetter> {
+  const text = (await readObject(storage, key)).toString("utf8");
+  if (!text) throw new Error(`Empty dead letter ${key}`);
+  const letter = JSON.parse(text) as DeadLetter;
+  if (letter.version !== 1 || !letter.record) throw new Error(`Unrecognised dead letter ${key}`);
+  return letter;
+}
+
+const documentDeadLetterRoot = (deadLetterPrefix: string, workspaceId: string | null) =>
+  `${deadLetterPrefix}${workspaceId ?? "no-workspace"}/documents/`;
+
+// One letter per source object, named after its key
+export function documentDeadLetterKey(deadLetterPrefix: string, letter: DocumentDeadLetter) {
+  const name = letter.source.key.replace(/[\/\\]/g, "_");
+  return `${documentDeadLetterRoot(deadLetterPrefix, letter.workspaceId)}${name}.json`;
+}
+
+export async function writeDocumentDeadLetter(
+  storage: Storage,
+  deadLetterPrefix: string,
+  letter: DocumentDeadLetter,
+): Promise<string> {
+  const key = documentDeadLetterKey(deadLetterPrefix, letter);
+  await storage.put(key, JSON.stringify(letter, null, 2), { contentType: "application/json" });
+  return key;
+}
+
+export async function listDocumentDeadLetters(
+  storage: Storage,
+  config: AppConfig,
+): Promise<string[]> {
+  return (await storage.list(documentDeadLetterRoot(config.deadLetterPrefix, config.workspaceId)))
+    .map((o) => o.key)
+    .filter((key) => key.endsWith(".json"));
+}
+
+export async function readDocumentDeadLetter(
+  storage: Storage,
+  key: string,
+): Promise<DocumentDeadLetter> {
+  const text = (await readObject(storage, key)).toString("utf8");
+  if (!text) throw new Error(`Empty dead letter ${key}`);
+  const letter = JSON.parse(text) as DocumentDeadLetter;
+  if (letter.version !== 1 || letter.kind !== "document" || !letter.source?.key) {
+    throw new Error(`Unrecognised dead letter ${key}`);
+  }
+  return letter;
+}
+
+export async function deleteDeadLetter(storage: Storage, key: string) {
+  await storage.delete(key);
+}
@@ -0,0 +1,52 @@
+import { describe, expect, test } from "bun:test";
+import { extractEmail, type GmailMessage } from "./emailExtractor";
+
+const b64url = (text: string) => Buffer.from(text, "utf8").toString("base64url");
+
+function message(body: string, headers: Array<{ name: string; value: string }>): GmailMessage {
+  return {
+    id: "m1",
+    payload: {
+      mimeType: "multipart/alternative",
+      headers: [{ name: "Subject", value: "Re: plan" }],
+      parts: [{ partId: "0", mimeType: "text/plain", headers, body: { data: b64url(body) } }],
+    },
+  };
+}
+
+describe("extractEmail", () => {
+  test("decodes Gmail body data once, whatever the part's transfer encoding says", () => {
+    const email = extractEmail(
+      message("sounds good thanks\r\n", [
+        { name: "Content-Type", value: "text/plain; charset=UTF-8" },
+        { name: "Content-Transfer-Encoding", value: "base64" },
+      ]),
+    );
+    expect(email.body).toBe("sounds good thanks\r\n");
+    expect(email.decodeFallback).toBe(false);
+  });
+
+  test("keeps text that looks quoted-printable as it is", () => {
+    const email = extractEmail(
+      message("a=3Db and caf=C3=A9\r\n", [
+        { name: "Content-Type", value: "text/plain; charset=UTF-8" },
+        { name: "Content-Transfer-Encoding", value: "quoted-printable" },
+      ]),
+    );
+    expect(email.body).toBe("a=3Db and caf=C3=A9\r\n");
+  });
+
+  test("decodes the declared charset", () => {
+    const data = Buffer.from("caf\xe9", "latin1").toString("base64url");
+    const email = extractEmail({
+      id: "m2",
+      payload: {
+        mimeType: "text/plain",
+        headers: [{ name: "Content-Type", value: "text/plain; charset=ISO-8859-1" }],
+        body: { data },
+      },
+    });
+    expect(email.body).toBe("café");
+    expect(email.charset).toBe("iso-8859-1");
+  });
+});
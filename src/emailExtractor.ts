@@ -1,4 +1,5 @@
 import { Buffer } from "node:buffer";
+import { decodeBytes, decodeEncodedWords, headerParam } from "./mimeDecoding";
 
 export interface GmailHeader {
   name: string;
@@ -6,11 +7,13 @@ export interface GmailHeader {
 }
 
 export interface GmailBody {
+  attachmentId?: string;
   size?: number;
   data?: string | null;
 }
 
 export interface GmailPart {
+  partId?: string;
   mimeType?: string;
   filename?: string;
   headers?: GmailHeader[];
@@ -23,33 +26,39 @@ export interface GmailMessage {
   data?: GmailMessage; // handle nested data envelope
   _airbyte_data?: GmailMessage; // Airbyte envelope
   threadId?: string;
+  labelIds?: string[];
   payload?: GmailPart;
   snippet?: string;
+  internalDate?: string; // epoch millis as a string
 }
 
-function base64UrlDecode(data: string): string {
+export function base64UrlToBuffer(data: string): Buffer {
   const padded = data.replace(/-/g, "+").replace(/_/g, "/") + "=".repeat((4 - (data.length % 4)) % 4);
-  return Buffer.from(padded, "base64").toString("utf8");
+  return Buffer.from(padded, "base64");
 }
 
-function findHeader(headers: GmailHeader[] | undefined, name: string): string | undefined {
+export function findHeader(headers: GmailHeader[] | undefined, name: string): string | undefined {
   const h = headers?.find((hh) => hh.name?.toLowerCase() === name.toLowerCase());
   return h?.value;
 }
 
-function findPart(part: GmailPart | undefined, preferHtml = true): { mime: string; data: string } | null {
-  if (!part) return null;
+const isAttachment = (part: GmailPart) => Boolean(part.filename) || Boolean(part.body?.attachmentId);
+
+type BodyPart = { mime: string; data: string; headers?: GmailHeader[] };
+
+function findPart(part: GmailPart | undefined, preferHtml = true): BodyPart | null {
+  if (!part || isAttachment(part)) return null;
   const isMultipart = part.mimeType?.toLowerCase().startsWith("multipart/");
   if (!isMultipart && part.body?.data) {
-    return { mime: part.mimeType || "text/plain", data: part.body.data };
+    return { mime: part.mimeType || "text/plain", data: part.body.data, headers: part.headers };
   }
-  const parts = part.parts || [];
+  const parts = (part.parts || []).filter((p) => !isAttachment(p));
   if (preferHtml) {
     const html = parts.find((p) => (p.mimeType || "").toLowerCase() === "text/html" && p.body?.data);
-    if (html?.body?.data) return { mime: "text/html", data: html.body.data };
+    if (html?.body?.data) return { mime: "text/html", data: html.body.data, headers: html.headers };
   }
   const plain = parts.find((p) => (p.mimeType || "").toLowerCase() === "text/plain" && p.body?.data);
-  if (plain?.body?.data) return { mime: "text/plain", data: plain.body.data };
+  if (plain?.body?.data) return { mime: "text/plain", data: plain.body.data, headers: plain.headers };
   // Recurse
   for (const p of parts) {
     const found = findPart(p, preferHtml);
@@ -58,58 +67,113 @@ function findPart(part: GmailPart | undefined, preferHtml = true): { mime: strin
   return null;
 }
 
+export type EmailAttachment = {
+  partId?: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  contentId?: string;
+  data?: string; // base64url, present when Gmail inlined the body
+  attachmentId?: string; // present when the body must be fetched separately
+};
+
+function collectAttachments(part: GmailPart | undefined, out: EmailAttachment[] = []): EmailAttachment[] {
+  if (!part) return out;
+  if (isAttachment(part)) {
+    const contentId = findHeader(part.headers, "Content-ID")?.replace(/^<|>$/g, "");
+    out.push({
+      partId: part.partId,
+      filename: part.filename || `part-${part.partId ?? out.length}`,
+      mimeType: part.mimeType || "application/octet-stream",
+      size: part.body?.size ?? 0,
+      contentId,
+      data: part.body?.data ?? undefined,
+      attachmentId: part.body?.attachmentId,
+    });
+  }
+  for (const p of part.parts || []) collectAttachments(p, out);
+  return out;
+}
+
 export type ExtractedEmail = {
   messageId: string;
+  threadId?: string;
+  labelIds: string[];
   subject?: string;
   from?: string;
   to?: string;
   cc?: string;
   bcc?: string;
   date?: string;
+  timestamp?: number; // epoch millis from Date, falling back to Gmail's internalDate
+  replyTo?: string;
+  inReplyTo?: string;
+  references?: string;
+  messageIdHeader?: string; // original RFC 5322 Message-ID, when Gmail kept it
   bodyMime: "text/html" | "text/plain";
   body: string;
+  charset: string; // charset the body was decoded with
+  decodeFallback: boolean; // declared charset was missing or wrong and a fallback was used
   snippet?: string;
+  attachments: EmailAttachment[];
+  headers: GmailHeader[];
+  payload?: GmailPart;
 };
 
-export function extractEmail(msg: GmailMessage): ExtractedEmail {
+export function parseEmailDate(date?: string, internalDate?: string): number | undefined {
+  const parsed = date ? Date.parse(date.replace(/\s*\([^)]*\)\s*$/, "")) : NaN;
+  if (!Number.isNaN(parsed)) return parsed;
+  const internal = internalDate ? Number(internalDate) : NaN;
+  return Number.isNaN(internal) ? undefined : internal;
+}
+
+// Bare, lower-cased addresses from a header such as `"Doe, Jane" <jane@x.com>, bob@y.com`.
+export function parseAddresses(value?: string): string[] {
+  if (!value) return [];
+  const matches = value.match(/[A-Za-z0-9._%+'-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g) ?? [];
+  return Array.from(new Set(matches.map((m) => m.toLowerCase())));
+}
+
+export type ExtractOptions = {
+  preferHtml?: boolean; // default true; transcripts and text pipelines prefer text/plain
+};
+
+export function extractEmail(msg: GmailMessage, opts: ExtractOptions = {}): ExtractedEmail {
   const core: GmailMessage = msg._airbyte_data ?? msg.data ?? msg;
   if (!core.id) throw new Error("Missing message id");
   const headers = core.payload?.headers || [];
-  const part = findPart(core.payload, true);
+  const part = findPart(core.payload, opts.preferHtml ?? true);
   if (!part) throw new Error("No body found");
-  const decoded = base64UrlDecode(part.data);
+  // Gmail's body.data is already transfer-decoded whatever Content-Transfer-Encoding says, so the
+  // base64url layer is the only one to remove
+  const bytes = base64UrlToBuffer(part.data);
+  const decoded = decodeBytes(bytes, headerParam(findHeader(part.headers, "Content-Type"), "charset"));
   const bodyMime = part.mime.toLowerCase().includes("html") ? "text/html" : "text/plain";
 
-  const get = (name: string) => findHeader(headers, name);
+  const get = (name: string) => decodeEncodedWords(findHeader(headers, name));
 
   return {
     messageId: core.id,
+    threadId: core.threadId,
+    labelIds: core.labelIds ?? [],
     subject: get("Subject"),
     from: get("From"),
     to: get("To"),
     cc: get("Cc"),
     bcc: get("Bcc"),
     date: get("Date"),
+    timestamp: parseEmailDate(get("Date"), core.internalDate),
+    replyTo: get("Reply-To"),
+    inReplyTo: get("In-Reply-To"),
+    references: get("References"),
+    messageIdHeader: get("Message-ID"),
     bodyMime,
-    body: decoded,
-    snippet: msg.snippet,
+    body: decoded.text,
+    charset: decoded.charset,
+    decodeFallback: decoded.fallback,
+    snippet: core.snippet,
+    attachments: collectAttachments(core.payload),
+    headers,
+    payload: core.payload,
   };
 }
-
-export function toEml(email: ExtractedEmail): string {
-  const headers = [
-    email.from ? `From: ${email.from}` : null,
-    email.to ? `To: ${email.to}` : null,
-    email.cc ? `Cc: ${email.cc}` : null,
-    email.bcc ? `Bcc: ${email.bcc}` : null,
-    email.subject ? `Subject: ${email.subject}` : null,
-    email.date ? `Date: ${email.date}` : null,
-    `Message-ID: <${email.messageId}@gmail>`,
-    "MIME-Version: 1.0",
-    `Content-Type: ${email.bodyMime}; charset=\"UTF-8\"`,
-  ]
-    .filter(Boolean)
-    .join("\r\n");
-
-  return `${headers}\r\n\r\n${email.body}`;
-}
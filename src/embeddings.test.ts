@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+  batchByTokens,
+  collectionName,
+  createEmbeddingProvider,
+  loadEmbeddingConfig,
+} from "./embeddings";
+
+const ENV_KEYS = ["EMBEDDING_PROVIDER", "EMBEDDING_MODEL", "EMBEDDING_DIMENSIONS"] as const;
+const saved = Object.fromEntries(ENV_KEYS.map((k) => [k, process.env[k]]));
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    if (saved[key] === undefined) delete process.env[key];
+    else process.env[key] = saved[key];
+  }
+});
+
+const withEnv = (env: Partial<Record<(typeof ENV_KEYS)[number], string>>) => {
+  for (const key of ENV_KEYS) delete process.env[key];
+  Object.assign(process.env, env);
+};
+
+describe("provider selection", () => {
+  test("defaults to OpenAI text-embedding-3-small", () => {
+    withEnv({});
+    const provider = createEmbeddingProvider(loadEmbeddingConfig());
+    expect(provider.name).toBe("openai");
+    expect(provider.model).toBe("text-embedding-3-small");
+    expect(provider.dimensions).toBe(1536);
+  });
+
+  test("shortened OpenAI dimensions come from EMBEDDING_DIMENSIONS", () => {
+    withEnv({ EMBEDDING_MODEL: "text-embedding-3-large", EMBEDDING_DIMENSIONS: "256" });
+    expect(createEmbeddingProvider(loadEmbeddingConfig()).dimensions).toBe(256);
+  });
+
+  test("unknown OpenAI models need explicit dimensions", () => {
+    withEnv({ EMBEDDING_MODEL: "some-new-model" });
+    expect(() => createEmbeddingProvider(loadEmbeddingConfig())).toThrow(/EMBEDDING_DIMENSIONS/);
+  });
+
+  test("rejects unknown providers", () => {
+    withEnv({ EMBEDDING_PROVIDER: "cohere" });
+    expect(() => loadEmbeddingConfig()).toThrow(/Unknown EMBEDDING_PROVIDER cohere/);
+  });
+
+  test("the local provider embeds offline, deterministically and normalised", async () => {
+    withEnv({ EMBEDDING_PROVIDER: "local", EMBEDDING_DIMENSIONS: "64" });
+    const provider = createEmbeddingProvider(loadEmbeddingConfig());
+    expect(provider.name).toBe("local");
+    expect(provider.model).toBe("hashing-v1");
+    const [a, b, c] = await provider.embed(["quarterly revenue", "quarterly revenue", "lunch"]);
+    expect(a).toHaveLength(64);
+    expect(a).toEqual(b!);
+    expect(a).not.toEqual(c!);
+    expect(Math.hypot(...a!)).toBeCloseTo(1, 6);
+  });
+});
+
+describe("collectionName", () => {
+  test("separates providers, models and sizes", () => {
+    withEnv({ EMBEDDING_PROVIDER: "local" });
+    const local = createEmbeddingProvider(loadEmbeddingConfig());
+    withEnv({ EMBEDDING_PROVIDER: "local", EMBEDDING_DIMENSIONS: "128" });
+    const local128 = createEmbeddingProvider(loadEmbeddingConfig());
+    withEnv({});
+    const openai = createEmbeddingProvider(loadEmbeddingConfig());
+
+    expect(collectionName(openai, "benny")).toBe("benny__openai-text-embedding-3-small-1536");
+    expect(collectionName(local, "benny")).toBe("benny__local-hashing-v1-384");
+    expect(collectionName(local128, "benny")).not.toBe(collectionName(local, "benny"));
+  });
+});
+
+describe("batchByTokens", () => {
+  test("splits on the token budget and keeps order", () => {
+    const texts = ["a".repeat(40), "b".repeat(40), "c".repeat(40)]; // ~10 tokens each
+    expect(batchByTokens(texts, 20)).toEqual([[texts[0]!, texts[1]!], [texts[2]!]]);
+  });
+
+  test("caps the number of inputs per request", () => {
+    expect(batchByTokens(["a", "b", "c"], 1000, 2)).toEqual([["a", "b"], ["c"]]);
+  });
+});
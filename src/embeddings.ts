@@ -0,0 +1,184 @@
+import { createHash } from "node:crypto";
+import { openai } from "@ai-sdk/openai";
+import { embedMany } from "ai";
+import { estimateTokens } from "./chunking";
+
+export interface EmbeddingProvider {
+  name: string; // "openai" | "local"
+  model: string;
+  dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingConfig = {
+  provider: "openai" | "local";
+  model: string;
+  dimensions?: number; // OpenAI v3 models can be shortened; local embedder size
+  batchTokens: number; // token budget per request
+  maxInputTokens: number; // longer inputs are truncated
+  maxRetries: number;
+};
+
+const OPENAI_DIMENSIONS: Record<string, number> = {
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+  "text-embedding-ada-002": 1536,
+};
+
+export function loadEmbeddingConfig(): EmbeddingConfig {
+  const provider = (process.env.EMBEDDING_PROVIDER || "openai").toLowerCase();
+  if (provider !== "openai" && provider !== "local") {
+    throw new Error(`Unknown EMBEDDING_PROVIDER ${provider} (expected openai or local)`);
+  }
+  const dimensions = process.env.EMBEDDING_DIMENSIONS
+    ? Number(process.env.EMBEDDING_DIMENSIONS)
+    : undefined;
+  return {
+    provider,
+    model:
+      process.env.EMBEDDING_MODEL ||
+      (provider === "openai" ? "text-embedding-3-small" : "hashing-v1"),
+    dimensions,
+    batchTokens: Number(process.env.EMBEDDING_BATCH_TOKENS || 100_000),
+    maxInputTokens: Number(process.env.EMBEDDING_MAX_INPUT_TOKENS || 8000),
+    maxRetries: Number(process.env.EMBEDDING_MAX_RETRIES || 5),
+  };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function isTransient(error: unknown): boolean {
+  const err = error as { statusCode?: number; isRetryable?: boolean; code?: string };
+  if (err?.isRetryable) return true;
+  if (err?.statusCode === 429 || (err?.statusCode !== undefined && err.statusCode >= 500)) {
+    return true;
+  }
+  return ["ECONNRESET", "ETIMEDOUT", "ECONNREFUSED", "EAI_AGAIN"].includes(err?.code ?? "");
+}
+
+export async function withRetry<T>(
+  label: string,
+  maxRetries: number,
+  fn: () => Promise<T>,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= maxRetries || !isTransient(error)) throw error;
+      const delay = Math.min(30_000, 500 * 2 ** attempt) * (0.5 + Math.random() / 2);
+      console.warn(
+        `${label} failed (${(error as Error).message}); retry ${attempt + 1}/${maxRetries} in ${Math.round(delay)}ms`,
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+// Splits inputs into requests that each stay under the token budget (and OpenAI's cap of
+// 2048 inputs per request), keeping order.
+export function batchByTokens(texts: string[], batchTokens: number, maxItems = 2048): string[][] {
+  const batches: string[][] = [];
+  let current: string[] = [];
+  let tokens = 0;
+  for (const text of texts) {
+    const t = estimateTokens(text);
+    if (current.length > 0 && (tokens + t > batchTokens || current.length >= maxItems)) {
+      batches.push(current);
+      current = [];
+      tokens = 0;
+    }
+    current.push(text);
+    tokens += t;
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+function truncate(text: string, maxInputTokens: number): string {
+  const maxChars = maxInputTokens * 4;
+  return text.length > maxChars ? text.slice(0, maxChars) : text;
+}
+
+function openaiProvider(config: EmbeddingConfig): EmbeddingProvider {
+  const dimensions = config.dimensions ?? OPENAI_DIMENSIONS[config.model];
+  if (!dimensions) {
+    throw new Error(`Unknown dimensions for ${config.model}; set EMBEDDING_DIMENSIONS`);
+  }
+  const model = openai.embedding(config.model);
+  return {
+    name: "openai",
+    model: config.model,
+    dimensions,
+    async embed(texts) {
+      const out: number[][] = [];
+      const batches = batchByTokens(
+        texts.map((t) => truncate(t, config.maxInputTokens)),
+        config.batchTokens,
+      );
+      for (const [idx, batch] of batches.entries()) {
+        const result = await withRetry(
+          `Embedding batch ${idx + 1}/${batches.length}`,
+          config.maxRetries,
+          () =>
+            embedMany({
+              model,
+              values: batch,
+              maxRetries: 0, // retried above with our own backoff
+              providerOptions: config.dimensions ? { openai: { dimensions } } : undefined,
+            }),
+        );
+        out.push(...(result.embeddings as number[][]));
+      }
+      return out;
+    },
+  };
+}
+
+// Feature-hashing embedder: deterministic, offline and free. Good enough to exercise the
+// pipeline end to end; not a substitute for a real model in production.
+function localProvider(config: EmbeddingConfig): EmbeddingProvider {
+  const dimensions = config.dimensions ?? 384;
+  const embedOne = (text: string): number[] => {
+    const vector = new Array<number>(dimensions).fill(0);
+    const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    const features = [...tokens, ...tokens.slice(1).map((t, i) => `${tokens[i]} ${t}`)];
+    for (const feature of features) {
+      const digest = createHash("sha1").update(feature).digest();
+      const bucket = digest.readUInt32BE(0) % dimensions;
+      vector[bucket]! += digest[4]! & 1 ? 1 : -1;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return vector.map((v) => v / norm);
+  };
+  return {
+    name: "local",
+    model: config.model,
+    dimensions,
+    async embed(texts) {
+      return texts.map(embedOne);
+    },
+  };
+}
+
+export function createEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+  return config.provider === "local" ? localProvider(config) : openaiProvider(config);
+}
+
+// Vectors from different providers, models or sizes are not comparable, so each embedding space
+// gets its own Qdrant collection (QDRANT_COLLECTION is the prefix).
+export function collectionName(
+  provider: EmbeddingProvider,
+  base = process.env.QDRANT_COLLECTION || "benny",
+): string {
+  const space = `${provider.name}-${provider.model}-${provider.dimensions}`;
+  return `${base}__${space.toLowerCase().replace(/[^a-z0-9_-]+/g, "-")}`;
+}
+
+let cached: EmbeddingProvider | null = null;
+
+// Provider selected by the EMBEDDING_* env vars, shared by ingestion and search.
+export function embeddingProvider(): EmbeddingProvider {
+  cached ??= createEmbeddingProvider(loadEmbeddingConfig());
+  return cached;
+}
@@ -0,0 +1,148 @@
+import { describe, expect, test } from "bun:test";
+import { extractEmail, type GmailHeader, type GmailMessage } from "./emailExtractor";
+import { toEml } from "./emlWriter";
+import { decodeEncodedWords, decodeQuotedPrintable, headerParam } from "./mimeDecoding";
+
+// Minimal MIME reader, enough to walk what toEml writes back into a tree.
+type ParsedPart = { headers: GmailHeader[]; body: Buffer; parts: ParsedPart[] };
+
+const b64url = (data: string | Buffer) => Buffer.from(data).toString("base64url");
+
+function parsePart(raw: Buffer): ParsedPart {
+  const text = raw.toString("latin1");
+  const split = text.indexOf("\r\n\r\n");
+  const headers = text
+    .slice(0, split)
+    .replace(/\r\n[ \t]/g, " ")
+    .split("\r\n")
+    .map((line) => {
+      const colon = line.indexOf(":");
+      return { name: line.slice(0, colon), value: line.slice(colon + 1).trim() };
+    });
+  const body = Buffer.from(text.slice(split + 4), "latin1");
+  const get = (name: string) => headers.find((h) => h.name === name)?.value;
+  const boundary = headerParam(get("Content-Type"), "boundary");
+  if (boundary) {
+    const sections = body.toString("latin1").split(`--${boundary}`);
+    expect(sections.at(-1)).toStartWith("--");
+    const parts = sections
+      .slice(1, -1)
+      .map((section) => parsePart(Buffer.from(section.replace(/^\r\n|\r\n$/g, ""), "latin1")));
+    return { headers, body, parts };
+  }
+  const encoding = get("Content-Transfer-Encoding");
+  const decoded =
+    encoding === "base64"
+      ? Buffer.from(body.toString(), "base64")
+      : encoding === "quoted-printable"
+        ? Buffer.from(decodeQuotedPrintable(body))
+        : body;
+  return { headers, body: decoded, parts: [] };
+}
+
+const header = (part: ParsedPart, name: string) => part.headers.find((h) => h.name === name)?.value;
+
+const nested = "From: ana@example.com\r\nSubject: Budget\r\n\r\nSee the numbers – Ana\r\n";
+const pdf = Buffer.from([0x25, 0x50, 0x44, 0x46, 0x00, 0xff, 0x10, 0x80]);
+
+const message: GmailMessage = {
+  id: "msg-1",
+  payload: {
+    mimeType: "multipart/mixed",
+    headers: [
+      { name: "From", value: "Zoë Müller <zoe@example.com>" },
+      { name: "To", value: "team@example.com" },
+      { name: "Subject", value: "Réunion: budget 2025 ✓" },
+      { name: "Message-ID", value: "<abc@example.com>" },
+    ],
+    parts: [
+      {
+        partId: "0",
+        mimeType: "multipart/alternative",
+        parts: [
+          { partId: "0.0", mimeType: "text/plain", body: { data: b64url("Hi all,\nsee below.") } },
+          {
+            partId: "0.1",
+            mimeType: "text/html",
+            headers: [{ name: "Content-Type", value: 'text/html; charset="UTF-8"' }],
+            body: { data: b64url("<p>Café at 9 – see below.</p>") },
+          },
+        ],
+      },
+      {
+        partId: "1",
+        mimeType: "application/pdf",
+        filename: "report.pdf",
+        headers: [{ name: "Content-Disposition", value: 'attachment; filename="report.pdf"' }],
+        body: { attachmentId: "att-1", size: pdf.length },
+      },
+      {
+        partId: "2",
+        mimeType: "message/rfc822",
+        body: { data: b64url(nested) },
+      },
+    ],
+  },
+};
+
+describe("toEml", () => {
+  const eml = toEml(extractEmail(message), new Map([["1", pdf]]));
+  const root = parsePart(eml);
+
+  test("writes RFC 2047 headers that decode back to the originals", () => {
+    expect(/^[\x00-\x7f]*$/.test(eml.toString("latin1").split("\r\n\r\n")[0]!)).toBe(true);
+    expect(decodeEncodedWords(header(root, "From"))).toBe("Zoë Müller <zoe@example.com>");
+    expect(decodeEncodedWords(header(root, "Subject"))).toBe("Réunion: budget 2025 ✓");
+    expect(header(root, "Message-ID")).toBe("<abc@example.com>");
+    expect(header(root, "MIME-Version")).toBe("1.0");
+  });
+
+  test("keeps the part tree with one distinct boundary per multipart", () => {
+    expect(header(root, "Content-Type")).toStartWith("multipart/mixed;");
+    expect(root.parts.map((p) => header(p, "Content-Type")?.split(";")[0])).toEqual([
+      "multipart/alternative",
+      "application/pdf",
+      "message/rfc822",
+    ]);
+    const [alternative] = root.parts;
+    expect(alternative!.parts.map((p) => p.body.toString("utf8"))).toEqual([
+      "Hi all,\r\nsee below.",
+      "<p>Café at 9 – see below.</p>",
+    ]);
+    const boundaries = [root, alternative!].map((p) =>
+      headerParam(header(p, "Content-Type"), "boundary"),
+    );
+    expect(new Set(boundaries).size).toBe(2);
+  });
+
+  test("base64-encodes attachments and keeps their disposition", () => {
+    const attachment = root.parts[1]!;
+    expect(header(attachment, "Content-Transfer-Encoding")).toBe("base64");
+    expect(header(attachment, "Content-Type")).toBe('application/pdf; name="report.pdf"');
+    expect(header(attachment, "Content-Disposition")).toBe('attachment; filename="report.pdf"');
+    expect(attachment.body.equals(pdf)).toBe(true);
+  });
+
+  test("writes a nested message as 8bit bytes, never quoted-printable", () => {
+    const forwarded = root.parts[2]!;
+    expect(header(forwarded, "Content-Transfer-Encoding")).toBe("8bit");
+    expect(forwarded.body.toString("utf8")).toBe(nested);
+  });
+
+  test("uses binary for a nested message with a line over 998 bytes", () => {
+    const long = `Subject: x\r\n\r\n${"a".repeat(1200)}\r\n`;
+    const single: GmailMessage = {
+      id: "msg-2",
+      payload: {
+        mimeType: "multipart/mixed",
+        parts: [
+          { mimeType: "text/plain", body: { data: b64url("see attached") } },
+          { mimeType: "message/rfc822", body: { data: b64url(long) } },
+        ],
+      },
+    };
+    const forwarded = parsePart(toEml(extractEmail(single))).parts[1]!;
+    expect(header(forwarded, "Content-Transfer-Encoding")).toBe("binary");
+    expect(forwarded.body.toString()).toBe(long);
+  });
+});
@@ -0,0 +1,239 @@
+import { createHash } from "node:crypto";
+import {
+  base64UrlToBuffer,
+  findHeader,
+  type ExtractedEmail,
+  type GmailPart,
+} from "./emailExtractor";
+
+const CRLF = "\r\n";
+
+// Part headers copied verbatim from the Gmail payload; everything else is regenerated.
+const PASSTHROUGH_PART_HEADERS = [
+  "Content-Disposition",
+  "Content-ID",
+  "Content-Description",
+  "Content-Location",
+  "Content-Language",
+];
+
+const isAscii = (value: string) => /^[\x00-\x7f]*$/.test(value);
+
+// RFC 2047 B-encoding, split so every encoded-word stays under 75 chars without
+// cutting a UTF-8 sequence in half.
+function encodeWords(value: string): string {
+  const words: string[] = [];
+  let chunk = "";
+  for (const ch of value) {
+    if (Buffer.byteLength(chunk + ch, "utf8") > 45) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += ch;
+  }
+  if (chunk) words.push(chunk);
+  return words.map((w) => `=?UTF-8?B?${Buffer.from(w, "utf8").toString("base64")}?=`).join(" ");
+}
+
+// Spans of whitespace-separated words that contain at least one non-ASCII char.
+const NON_ASCII_SPAN = /[^\s"]*[^\x00-\x7f][^\s"]*(?:\s+[^\s"]*[^\x00-\x7f][^\s"]*)*/g;
+// Encoded-words are not allowed inside quoted strings, so quoted display names go whole.
+const NON_ASCII_QUOTED = /"([^"]*[^\x00-\x7f][^"]*)"/g;
+
+export function encodeHeaderValue(value: string): string {
+  const unfolded = value.replace(/\r?\n[ \t]*/g, " ");
+  if (isAscii(unfolded)) return unfolded;
+  // Only the non-ASCII spans are encoded so addresses and ASCII words stay readable.
+  return unfolded
+    .replace(NON_ASCII_QUOTED, (_match, inner: string) => encodeWords(inner))
+    .replace(NON_ASCII_SPAN, (span) => encodeWords(span));
+}
+
+// Folds at whitespace to keep lines near the recommended 78 chars.
+function foldHeader(line: string): string {
+  if (line.length <= 78) return line;
+  const out: string[] = [];
+  let current = "";
+  for (const word of line.split(" ")) {
+    if (current && current.length + word.length + 1 > 76) {
+      out.push(current);
+      current = ` ${word}`;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) out.push(current);
+  return out.join(CRLF);
+}
+
+function header(name: string, value: string | undefined): string | null {
+  if (!value) return null;
+  return foldHeader(`${name}: ${encodeHeaderValue(value)}`);
+}
+
+function encodeQuotedPrintable(data: Buffer): string {
+  const text = data.toString("latin1").replace(/\r\n/g, "\n");
+  const lines = text.split("\n").map((line) => {
+    let out = "";
+    let lineLen = 0;
+    for (let i = 0; i < line.length; i++) {
+      const code = line.charCodeAt(i);
+      const isLast = i === line.length - 1;
+      let token: string;
+      if ((code === 0x20 || code === 0x09) && !isLast) {
+        token = line[i]!;
+      } else if (code >= 33 && code <= 126 && code !== 61) {
+        token = line[i]!;
+      } else {
+        token = `=${code.toString(16).toUpperCase().padStart(2, "0")}`;
+      }
+      if (lineLen + token.length > 75) {
+        out += `=${CRLF}`;
+        lineLen = 0;
+      }
+      out += token;
+      lineLen += token.length;
+    }
+    return out;
+  });
+  return lines.join(CRLF);
+}
+
+function encodeBase64(data: Buffer): string {
+  return (data.toString("base64").match(/.{1,76}/g) ?? []).join(CRLF);
+}
+
+const BOUNDARY_MARKER = "=_benny_";
+
+// Bodies are byte strings (one char per byte); toEml turns the whole message back into bytes.
+function encodeBody(data: Buffer, mimeType: string): { encoding: string; body: string } {
+  const text = data.toString("latin1");
+  const shortLines = text.split(/\r?\n/).every((line) => line.length <= 998);
+  if (mimeType === "message/rfc822") {
+    // RFC 2046 only allows 7bit, 8bit or binary here, so the nested message goes in as is.
+    const body = text.replace(/\r?\n/g, CRLF);
+    if (!shortLines) return { encoding: "binary", body };
+    return { encoding: /^[\x01-\x7f]*$/.test(text) ? "7bit" : "8bit", body };
+  }
+  if (mimeType.startsWith("text/")) {
+    const sevenBit =
+      /^[\x01-\x7f]*$/.test(text) && !text.includes(BOUNDARY_MARKER) && shortLines;
+    if (sevenBit) return { encoding: "7bit", body: text.replace(/\r?\n/g, CRLF) };
+    return { encoding: "quoted-printable", body: encodeQuotedPrintable(data) };
+  }
+  return { encoding: "base64", body: encodeBase64(data) };
+}
+
+// Deterministic so re-exports of the same message produce identical bytes.
+function boundaryFor(messageId: string, path: string): string {
+  const digest = createHash("sha1").update(`${messageId}:${path}`).digest("hex").slice(0, 24);
+  return `${BOUNDARY_MARKER}${digest}`;
+}
+
+function contentTypeFor(part: GmailPart, boundary?: string): string {
+  const mimeType = (part.mimeType || "application/octet-stream").toLowerCase();
+  const original = findHeader(part.headers, "Content-Type");
+  let params = original
+    ? original
+        .split(";")
+        .slice(1)
+        .map((p) => p.trim())
+    : [];
+  params = params.filter((p) => p && !/^boundary=/i.test(p));
+  if (boundary) params.push(`boundary="${boundary}"`);
+  if (part.filename && !params.some((p) => /^name=/i.test(p))) {
+    params.push(`name="${part.filename.replace(/"/g, "")}"`);
+  }
+  return [mimeType, ...params].join("; ");
+}
+
+export type AttachmentData = Map<string, Buffer>; // keyed by Gmail partId
+
+function writePart(
+  part: GmailPart,
+  messageId: string,
+  path: string,
+  attachmentData: AttachmentData | undefined,
+): { headers: string[]; body: string } {
+  const mimeType = (part.mimeType || "application/octet-stream").toLowerCase();
+  const extraHeaders = PASSTHROUGH_PART_HEADERS.map((name) =>
+    header(name, findHeader(part.headers, name)),
+  ).filter((h): h is string => h !== null);
+
+  if (mimeType.startsWith("multipart/")) {
+    const boundary = boundaryFor(messageId, path);
+    const children = (part.parts || []).map((child, idx) => {
+      const written = writePart(child, messageId, `${path}.${idx}`, attachmentData);
+      return [...written.headers, "", written.body].join(CRLF);
+    });
+    const body = [
+      "This is a multi-part message in MIME format.",
+      ...children.map((child) => `--${boundary}${CRLF}${child}`),
+      `--${boundary}--`,
+      "",
+    ].join(CRLF);
+    return {
+      headers: [`Content-Type: ${contentTypeFor(part, boundary)}`, ...extraHeaders],
+      body,
+    };
+  }
+
+  let data: Buffer | undefined;
+  if (part.body?.data) data = base64UrlToBuffer(part.body.data);
+  else if (part.partId !== undefined) data = attachmentData?.get(part.partId);
+
+  if (!data && part.body?.attachmentId) {
+    // Bytes were not downloaded; keep a reference so the structure is still intact.
+    return {
+      headers: [
+        `Content-Type: message/external-body; access-type="x-gmail-attachment"; ` +
+          `attachment-id="${part.body.attachmentId}"`,
+        ...extraHeaders,
+      ],
+      body: [`Content-Type: ${contentTypeFor(part)}`, "", ""].join(CRLF),
+    };
+  }
+
+  const encoded = encodeBody(data ?? Buffer.alloc(0), mimeType);
+  return {
+    headers: [
+      `Content-Type: ${contentTypeFor(part)}`,
+      `Content-Transfer-Encoding: ${encoded.encoding}`,
+      ...extraHeaders,
+    ],
+    body: encoded.body,
+  };
+}
+
+function singleBodyPart(email: ExtractedEmail): GmailPart {
+  return {
+    mimeType: email.bodyMime,
+    headers: [{ name: "Content-Type", value: `${email.bodyMime}; charset="UTF-8"` }],
+    body: { data: Buffer.from(email.body, "utf8").toString("base64url") },
+  };
+}
+
+export function toEml(email: ExtractedEmail, attachmentData?: AttachmentData): Buffer {
+  const messageIdHeader = email.messageIdHeader || `<${email.messageId}@gmail>`;
+  const root = email.payload?.mimeType ? email.payload : singleBodyPart(email);
+  const written = writePart(root, email.messageId, "0", attachmentData);
+
+  const headers = [
+    header("From", email.from),
+    header("Reply-To", email.replyTo),
+    header("To", email.to),
+    header("Cc", email.cc),
+    header("Bcc", email.bcc),
+    header("Subject", email.subject),
+    header("Date", email.date),
+    `Message-ID: ${messageIdHeader}`,
+    header("In-Reply-To", email.inReplyTo),
+    header("References", email.references),
+    "MIME-Version: 1.0",
+    ...written.headers,
+  ]
+    .filter(Boolean)
+    .join(CRLF);
+
+  return Buffer.from(`${headers}${CRLF}${CRLF}${written.body}`, "latin1");
+}
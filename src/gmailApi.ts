@@ -0,0 +1,22 @@
+import { base64UrlToBuffer } from "./emailExtractor";
+
+const GMAIL_API_BASE = (
+  process.env.GMAIL_API_BASE || "https://gmail.googleapis.com/gmail/v1"
+).replace(/\/+$/, "");
+
+// Airbyte only exports attachment ids, so the bytes have to come from the Gmail API.
+export async function fetchAttachment(
+  accessToken: string,
+  messageId: string,
+  attachmentId: string,
+): Promise<Buffer> {
+  const url = `${GMAIL_API_BASE}/users/me/messages/${messageId}/attachments/${attachmentId}`;
+  const res = await fetch(url, { headers: { Authorization: `Bearer ${accessToken}` } });
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`Gmail attachment fetch failed (${res.status}) for ${messageId}: ${text}`);
+  }
+  const json = (await res.json()) as { data?: string };
+  if (!json.data) throw new Error(`Gmail attachment response missing data for ${messageId}`);
+  return base64UrlToBuffer(json.data);
+}
@@ -1,32 +1,83 @@
-import { loadConfig } from "./config";
-import { s3 } from "./s3Client";
-import { processMessages } from "./processor";
+import { loadConfig, parseCount } from "./config";
+import { processMessages, replayDeadLetters, type EmbedBody } from "./processor";
+import { processThreads } from "./threads";
+import { reconcileDeletions } from "./reconcile";
+import { openStorage } from "./storage";
+import { addFilterRule, isFilterRule, type FilterRule } from "./messageFilters";
 
 type Args = {
+  replay?: boolean;
+  reconcile?: boolean;
   messagesPrefix?: string;
   detailsPrefix?: string;
   limit?: number;
   dryRun?: boolean;
+  ingestAttachments?: boolean;
+  threads?: boolean;
+  embed?: boolean;
+  embedBody?: EmbedBody;
+  concurrency?: number;
+  strict?: boolean;
+  maxMalformed?: number;
+  restart?: boolean;
+  purge?: boolean;
+  maxDeletions?: number;
+  filters: Array<[FilterRule, string]>; // --exclude-label SPAM, --after 2025-01-01, ...
 };
 
 function parseArgs(argv: string[]): Args {
-  const args: Args = {};
+  const args: Args = { filters: [] };
   for (let i = 0; i < argv.length; i++) {
     const a = argv[i];
-    if (a === "--messages-prefix") {
+    if (a === "replay") {
+      args.replay = true;
+    } else if (a === "reconcile") {
+      args.reconcile = true;
+    } else if (a === "--messages-prefix") {
       args.messagesPrefix = argv[++i];
     } else if (a === "--details-prefix") {
       args.detailsPrefix = argv[++i];
     } else if (a === "--limit") {
-      const v = argv[++i];
-      args.limit = v ? Number(v) : undefined;
+      args.limit = parseCount(argv[++i], "--limit");
     } else if (a === "--dry-run") {
       args.dryRun = true;
+    } else if (a === "--ingest-attachments") {
+      args.ingestAttachments = true;
+    } else if (a === "--threads") {
+      args.threads = true;
+    } else if (a === "--embed") {
+      args.embed = true;
+    } else if (a === "--embed-body") {
+      const v = argv[++i];
+      if (v !== "clean" && v !== "original") {
+        throw new Error("--embed-body must be clean or original");
+      }
+      args.embedBody = v;
+    } else if (a === "--concurrency") {
+      args.concurrency = parseCount(argv[++i], "--concurrency");
+    } else if (a === "--strict") {
+      args.strict = true;
+    } else if (a === "--max-malformed") {
+      args.maxMalformed = parseCount(argv[++i], "--max-malformed", 0);
+    } else if (a === "--restart") {
+      args.restart = true;
+    } else if (a === "--purge") {
+      args.purge = true;
+    } else if (a === "--max-deletions") {
+      args.maxDeletions = parseCount(argv[++i], "--max-deletions", 0);
+    } else if (a?.startsWith("--") && isFilterRule(a.slice(2))) {
+      const v = argv[++i];
+      if (v !== undefined) args.filters.push([a.slice(2) as FilterRule, v]);
     }
   }
   return args;
 }
 
+const formatFilteredBy = (filteredBy: Partial<Record<FilterRule, number>>) =>
+  Object.entries(filteredBy)
+    .map(([rule, count]) => `${rule}=${count}`)
+    .join(" ");
+
 async function main() {
   const argv = process.argv.slice(2);
   const args = parseArgs(argv);
@@ -34,17 +85,74 @@ async function main() {
 
   if (args.messagesPrefix) config.messagesPrefix = args.messagesPrefix;
   if (args.detailsPrefix) config.detailsPrefix = args.detailsPrefix;
+  for (const [rule, value] of args.filters) addFilterRule(config.filters, rule, value);
+
+  const storage = openStorage(config.storage);
 
   console.log(
-    `Loaded config: bucket=${config.bucket}, detailsPrefix=${config.detailsPrefix}, rawFilesPrefix=${config.rawFilesPrefix}`,
+    `Loaded config: storage=${config.storage.backend}:${storage.location}, detailsPrefix=${config.detailsPrefix}, rawFilesPrefix=${config.rawFilesPrefix}`,
   );
 
-  const counters = await processMessages(s3, config, {
+  if (args.replay) {
+    const replay = await replayDeadLetters(storage, config, {
+      limit: args.limit,
+      dryRun: args.dryRun,
+      embed: args.embed,
+      ingestAttachments: args.ingestAttachments,
+      embedBody: args.embedBody,
+    });
+    console.log(
+      `Done. letters=${replay.letters} resolved=${replay.resolved} failing=${replay.failing}`,
+    );
+    return;
+  }
+
+  if (args.reconcile) {
+    const report = await reconcileDeletions(storage, config, {
+      dryRun: args.dryRun,
+      purge: args.purge,
+      maxDeletions: args.maxDeletions,
+    });
+    console.log(
+      `Done. sync=${report.syncId} current=${report.current} exported=${report.exported} ` +
+        `indexed=${report.indexed} stale=${report.stale.length} removed=${report.removed} ` +
+        `failed=${report.failed} threadsPruned=${report.threadsPruned}`,
+    );
+    return;
+  }
+
+  if (args.threads) {
+    const counters = await processThreads(storage, config, {
+      limit: args.limit,
+      dryRun: args.dryRun,
+    });
+    const filteredBy = formatFilteredBy(counters.filteredBy);
+    console.log(
+      `Done. processed=${counters.processed} threads=${counters.threads} created=${counters.created} ` +
+        `updated=${counters.updated} skipped=${counters.skipped} failed=${counters.failed} ` +
+        `filtered=${counters.filtered}${filteredBy ? ` (${filteredBy})` : ""} deleted=${counters.deleted}`,
+    );
+    return;
+  }
+
+  const counters = await processMessages(storage, config, {
     limit: args.limit,
     dryRun: args.dryRun,
+    ingestAttachments: args.ingestAttachments,
+    embed: args.embed,
+    embedBody: args.embedBody,
+    concurrency: args.concurrency,
+    // --strict alone tolerates no malformed lines; --max-malformed sets the threshold
+    maxMalformed:
+      args.strict || args.maxMalformed !== undefined ? (args.maxMalformed ?? 0) : undefined,
+    restart: args.restart,
   });
+  const filteredBy = formatFilteredBy(counters.filteredBy);
   console.log(
-    `Done. processed=${counters.processed} created=${counters.created} skipped=${counters.skipped} failed=${counters.failed}`,
+    `Done. processed=${counters.processed} created=${counters.created} skipped=${counters.skipped} failed=${counters.failed} ` +
+      `attachments=${counters.attachments} decodeFallbacks=${counters.decodeFallbacks} embedded=${counters.embedded} ` +
+      `malformed=${counters.malformed} abortedFiles=${counters.abortedFiles} deadLettered=${counters.deadLettered} ` +
+      `filtered=${counters.filtered}${filteredBy ? ` (${filteredBy})` : ""}`,
   );
 }
 
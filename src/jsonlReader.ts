@@ -1,45 +1,115 @@
-import { GetObjectCommand, ListObjectsV2Command, S3Client } from "@aws-sdk/client-s3";
 import readline from "node:readline";
 import { Readable } from "node:stream";
+import zlib from "node:zlib";
+import type { Storage } from "./storage";
 
-export async function listJsonlKeys(
-  s3: S3Client,
-  bucket: string,
-  prefix: string,
-): Promise<string[]> {
-  const keys: string[] = [];
-  let continuationToken: string | undefined;
-  do {
-    const res = await s3.send(
-      new ListObjectsV2Command({
-        Bucket: bucket,
-        Prefix: prefix,
-        ContinuationToken: continuationToken,
-      }),
-    );
-    res.Contents?.forEach((c) => {
-      if (c.Key && c.Key.toLowerCase().endsWith(".jsonl")) keys.push(c.Key);
-    });
-    continuationToken = res.IsTruncated ? res.NextContinuationToken : undefined;
-  } while (continuationToken);
-  return keys;
+// Airbyte's S3 destination writes `.jsonl`, or `.jsonl.gz` with GZIP compression enabled
+const JSONL_KEY = /\.jsonl(\.gz|\.gzip|\.deflate|\.zz)?$/i;
+
+export const isJsonlKey = (key: string) => JSONL_KEY.test(key);
+
+export type JsonlObject = { key: string; etag: string | null };
+
+export async function listJsonlObjects(storage: Storage, prefix: string): Promise<JsonlObject[]> {
+  return (await storage.list(prefix))
+    .filter((o) => isJsonlKey(o.key))
+    .map((o) => ({ key: o.key, etag: o.etag ?? null }));
+}
+
+export async function listJsonlKeys(storage: Storage, prefix: string): Promise<string[]> {
+  return (await listJsonlObjects(storage, prefix)).map((o) => o.key);
+}
+
+export class MalformedLimitError extends Error {
+  constructor(
+    readonly key: string,
+    readonly malformed: number,
+    readonly limit: number,
+  ) {
+    super(`${key} has ${malformed} malformed line(s), more than the limit of ${limit}`);
+    this.name = "MalformedLimitError";
+  }
+}
+
+export type JsonlReadOptions = {
+  startAfterLine?: number; // resume: lines 1..N are read but not parsed or yielded
+  maxMalformed?: number; // strict mode: throw MalformedLimitError once exceeded
+  onMalformed?: (line: number, error: Error) => void;
+};
+
+export type JsonlLine<T> = { line: number; value: T };
+
+// Picks a decompressor from the key, the Content-Encoding or the first bytes (gzip magic or a
+// zlib header), so mislabelled objects still decode.
+async function decompressed(body: Readable, key: string, contentEncoding?: string) {
+  const chunks = body[Symbol.asyncIterator]();
+  const first = await chunks.next();
+  const head: Buffer = first.done ? Buffer.alloc(0) : Buffer.from(first.value);
+  const encoding = (contentEncoding ?? "").toLowerCase();
+  const gzip =
+    /\.gz(ip)?$/i.test(key) || encoding === "gzip" || (head[0] === 0x1f && head[1] === 0x8b);
+  const deflate =
+    !gzip &&
+    (/\.(deflate|zz)$/i.test(key) ||
+      encoding === "deflate" ||
+      (head[0] === 0x78 && head.length > 1 && (head[0] * 256 + head[1]!) % 31 === 0));
+
+  const raw = Readable.from(
+    (async function* () {
+      if (!first.done) yield head;
+      for (let next = await chunks.next(); !next.done; next = await chunks.next()) {
+        yield next.value as Buffer;
+      }
+    })(),
+  );
+  if (!gzip && !deflate) return raw;
+  const stage = gzip ? zlib.createGunzip() : zlib.createInflate();
+  raw.on("error", (err) => stage.destroy(err));
+  return raw.pipe(stage);
 }
 
-export async function* readJsonlFromS3<T>(
-  s3: S3Client,
-  bucket: string,
+export async function* readJsonlLines<T>(
+  storage: Storage,
   key: string,
-): AsyncGenerator<T> {
-  const obj = await s3.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
-  const body = obj.Body as Readable;
-  const rl = readline.createInterface({ input: body, crlfDelay: Infinity });
-  for await (const line of rl) {
-    const trimmed = line.trim();
-    if (!trimmed) continue;
-    try {
-      yield JSON.parse(trimmed) as T;
-    } catch (err) {
-      console.warn(`Failed to parse JSONL line in ${key}: ${(err as Error).message}`);
+  opts: JsonlReadOptions = {},
+): AsyncGenerator<JsonlLine<T>> {
+  const { body, contentEncoding } = await storage.get(key);
+  const input = await decompressed(body, key, contentEncoding);
+  const rl = readline.createInterface({ input, crlfDelay: Infinity });
+  const skip = opts.startAfterLine ?? 0;
+  let line = 0;
+  let malformed = 0;
+  try {
+    for await (const text of rl) {
+      line += 1;
+      if (line <= skip) continue;
+      const trimmed = text.trim();
+      if (!trimmed) continue;
+      let value: T;
+      try {
+        value = JSON.parse(trimmed) as T;
+      } catch (err) {
+        malformed += 1;
+        console.warn(`Failed to parse JSONL line ${line} in ${key}: ${(err as Error).message}`);
+        opts.onMalformed?.(line, err as Error);
+        if (opts.maxMalformed !== undefined && malformed > opts.maxMalformed) {
+          throw new MalformedLimitError(key, malformed, opts.maxMalformed);
+        }
+        continue;
+      }
+      yield { line, value };
     }
+  } finally {
+    // Release the connection when the caller stops early (e.g. --limit)
+    input.destroy();
+    body.destroy();
   }
 }
+
+export async function* readJsonlRecords<T>(
+  storage: Storage,
+  key: string,
+  opts: JsonlReadOptions = {},
+): AsyncGenerator<T> {
+  for await (const { value } of readJsonlLines<T>(storage, key, opts)) yield value;
+}
@@ -0,0 +1,330 @@
+import { createHash } from "node:crypto";
+import path from "node:path";
+import { inflateRawSync } from "node:zlib";
+import type { PartitionElement } from "./chunking";
+import {
+  decodeBytes,
+  decodeEncodedWords,
+  decodeQuotedPrintable,
+  headerParam,
+} from "./mimeDecoding";
+
+// Built-in partitioner for simple formats. It emits the same element shape as the
+// Unstructured API (`type`, `element_id`, `text`, `metadata`) so chunking and payloads
+// do not care which partitioner ran.
+
+export const LOCAL_EXTENSIONS = ["txt", "md", "markdown", "html", "htm", "eml", "docx"];
+
+type Draft = { type: string; text: string; page?: number; extra?: Record<string, unknown> };
+
+function toElements(filename: string, filetype: string, drafts: Draft[]): PartitionElement[] {
+  const elements: PartitionElement[] = [];
+  let parentId: string | undefined;
+  for (const draft of drafts) {
+    const text = draft.text.replace(/[ \t]+/g, " ").trim();
+    if (!text) continue;
+    const elementId = createHash("sha256")
+      .update(`${filename}\u0000${elements.length}\u0000${text}`)
+      .digest("hex")
+      .slice(0, 32);
+    elements.push({
+      type: draft.type,
+      element_id: elementId,
+      text,
+      metadata: {
+        filename: path.basename(filename),
+        filetype,
+        languages: ["eng"],
+        ...(draft.page !== undefined ? { page_number: draft.page } : {}),
+        ...(draft.type !== "Title" && parentId ? { parent_id: parentId } : {}),
+        ...draft.extra,
+      },
+    });
+    if (draft.type === "Title") parentId = elementId;
+  }
+  return elements;
+}
+
+const LIST_ITEM = /^\s*(?:[-*+•]|\d+[.)])\s+/;
+
+function partitionText(text: string): Draft[] {
+  return text
+    .replace(/\r\n/g, "\n")
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .flatMap((block): Draft[] => {
+      const lines = block.split("\n");
+      if (lines.every((line) => LIST_ITEM.test(line))) {
+        return lines.map((line) => ({ type: "ListItem", text: line.replace(LIST_ITEM, "") }));
+      }
+      const single = lines.length === 1 && block.length < 80 && !/[.!?:;,]$/.test(block);
+      return [{ type: single ? "Title" : "NarrativeText", text: lines.join(" ") }];
+    });
+}
+
+function partitionMarkdown(text: string): Draft[] {
+  const drafts: Draft[] = [];
+  let paragraph: string[] = [];
+  let code: string[] | null = null;
+  const flush = () => {
+    if (paragraph.length > 0) drafts.push({ type: "NarrativeText", text: paragraph.join(" ") });
+    paragraph = [];
+  };
+  for (const line of text.replace(/\r\n/g, "\n").split("\n")) {
+    if (/^\s*```/.test(line)) {
+      if (code) {
+        drafts.push({ type: "CodeSnippet", text: code.join("\n") });
+        code = null;
+      } else {
+        flush();
+        code = [];
+      }
+    } else if (code) {
+      code.push(line);
+    } else if (/^#{1,6}\s+/.test(line)) {
+      flush();
+      drafts.push({ type: "Title", text: line.replace(/^#{1,6}\s+/, "").replace(/\s+#+\s*$/, "") });
+    } else if (LIST_ITEM.test(line)) {
+      flush();
+      drafts.push({ type: "ListItem", text: line.replace(LIST_ITEM, "") });
+    } else if (!line.trim()) {
+      flush();
+    } else {
+      paragraph.push(line.trim());
+    }
+  }
+  if (code) drafts.push({ type: "CodeSnippet", text: code.join("\n") });
+  flush();
+  return drafts.map((d) => ({
+    ...d,
+    text: d.type === "CodeSnippet" ? d.text : stripMarkdown(d.text),
+  }));
+}
+
+const stripMarkdown = (text: string) =>
+  text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, "$1 ($2)")
+    .replace(/(\*\*|__|\*|_|`)(.+?)\1/g, "$2");
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+export const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1] === "x" || entity[1] === "X"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+const TITLE_MARK = "\u0001title\u0001";
+const LIST_MARK = "\u0001list\u0001";
+const BLOCK_TAGS = "p|div|tr|table|ul|ol|blockquote|section|article|header|footer|pre|h[1-6]|li";
+
+function partitionHtml(html: string): Draft[] {
+  const text = decodeEntities(
+    html
+      .replace(/<!--[\s\S]*?-->/g, "")
+      .replace(/<(script|style|head|noscript|title)[^>]*>[\s\S]*?<\/\1>/gi, "")
+      .replace(/<h[1-6]\b[^>]*>/gi, `\n\n${TITLE_MARK}`)
+      .replace(/<li\b[^>]*>/gi, `\n\n${LIST_MARK}`)
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<\/t[dh]>/gi, " | ")
+      .replace(new RegExp(`</?(${BLOCK_TAGS})\\b[^>]*>`, "gi"), "\n\n")
+      .replace(/<[^>]+>/g, ""),
+  );
+  return text
+    .split(/\n\s*\n/)
+    .map((block) => block.replace(/\s*\|\s*$/, "").trim())
+    .filter((block) => block && block !== TITLE_MARK && block !== LIST_MARK)
+    .map((block): Draft => {
+      if (block.startsWith(TITLE_MARK)) {
+        return { type: "Title", text: block.slice(TITLE_MARK.length) };
+      }
+      if (block.startsWith(LIST_MARK)) {
+        return { type: "ListItem", text: block.slice(LIST_MARK.length) };
+      }
+      return { type: "NarrativeText", text: block.replace(/\s*\n\s*/g, " ") };
+    });
+}
+
+type MimeNode = { headers: Map<string, string>; body: Buffer };
+
+function parseMime(raw: Buffer): MimeNode {
+  // latin1 keeps string offsets equal to byte offsets
+  const text = raw.toString("latin1");
+  const split = /\r?\n\r?\n/.exec(text);
+  const headerText = split ? text.slice(0, split.index) : text;
+  const bodyStart = split ? split.index + split[0].length : text.length;
+  const headers = new Map<string, string>();
+  for (const line of headerText.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/)) {
+    const idx = line.indexOf(":");
+    if (idx > 0) headers.set(line.slice(0, idx).trim().toLowerCase(), line.slice(idx + 1).trim());
+  }
+  return { headers, body: raw.subarray(bodyStart) };
+}
+
+function mimeLeaves(node: MimeNode): MimeNode[] {
+  const contentType = node.headers.get("content-type") ?? "text/plain";
+  const boundary = headerParam(contentType, "boundary");
+  if (!contentType.toLowerCase().startsWith("multipart/") || !boundary) return [node];
+  const text = node.body.toString("latin1");
+  const parts = text.split(
+    new RegExp(
+      `\\r?\\n?--${boundary.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?:--)?[ \\t]*\\r?\\n?`,
+    ),
+  );
+  // First part is the preamble, last the epilogue
+  return parts
+    .slice(1, -1)
+    .filter((part) => part.trim())
+    .flatMap((part) => mimeLeaves(parseMime(Buffer.from(part, "latin1"))));
+}
+
+function decodeMimeBody(node: MimeNode): string {
+  const cte = node.headers.get("content-transfer-encoding")?.toLowerCase();
+  let bytes: Uint8Array = node.body;
+  if (cte === "base64") {
+    bytes = Buffer.from(node.body.toString("latin1").replace(/\s+/g, ""), "base64");
+  } else if (cte === "quoted-printable") {
+    bytes = decodeQuotedPrintable(node.body);
+  }
+  return decodeBytes(bytes, headerParam(node.headers.get("content-type"), "charset")).text;
+}
+
+function partitionEml(data: Buffer): Draft[] {
+  const root = parseMime(data);
+  const header = (name: string) => decodeEncodedWords(root.headers.get(name));
+  const leaves = mimeLeaves(root).filter(
+    (leaf) => !/^\s*attachment/i.test(leaf.headers.get("content-disposition") ?? ""),
+  );
+  const typeOf = (leaf: MimeNode) =>
+    (leaf.headers.get("content-type") ?? "text/plain").split(";")[0]!.trim().toLowerCase();
+  const plain = leaves.find((leaf) => typeOf(leaf) === "text/plain");
+  const html = leaves.find((leaf) => typeOf(leaf) === "text/html");
+
+  const drafts = plain
+    ? partitionText(decodeMimeBody(plain))
+    : html
+      ? partitionHtml(decodeMimeBody(html))
+      : [];
+  const extra = {
+    subject: header("subject") ?? null,
+    sent_from: header("from") ? [header("from")] : [],
+    sent_to: (header("to") ?? "")
+      .split(",")
+      .map((s) => s.trim())
+      .filter(Boolean),
+    email_message_id: header("message-id") ?? null,
+  };
+  return drafts.map((d) => ({ ...d, extra }));
+}
+
+// Minimal zip reader: enough to pull single entries out of OOXML packages.
+function readZipEntry(zip: Buffer, name: string): Buffer | null {
+  const eocd = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  if (eocd === -1) throw new Error("Not a zip archive (no end of central directory)");
+  const entries = zip.readUInt16LE(eocd + 10);
+  let offset = zip.readUInt32LE(eocd + 16);
+  for (let i = 0; i < entries; i++) {
+    if (zip.readUInt32LE(offset) !== 0x02014b50) throw new Error("Corrupt zip central directory");
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const entryName = zip.toString("utf8", offset + 46, offset + 46 + nameLength);
+    if (entryName === name) {
+      const localNameLength = zip.readUInt16LE(localOffset + 26);
+      const localExtraLength = zip.readUInt16LE(localOffset + 28);
+      const start = localOffset + 30 + localNameLength + localExtraLength;
+      const compressed = zip.subarray(start, start + compressedSize);
+      if (method === 0) return compressed;
+      if (method === 8) return inflateRawSync(compressed);
+      throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+}
+
+const xmlText = (xml: string) =>
+  decodeEntities(
+    Array.from(xml.matchAll(/<w:(t|tab|br|cr)\b[^>]*?(?:\/>|>([\s\S]*?)<\/w:t>)/g), (m) =>
+      m[1] === "t" ? (m[2] ?? "") : m[1] === "tab" ? "\t" : "\n",
+    ).join(""),
+  );
+
+function partitionDocx(data: Buffer): Draft[] {
+  const documentXml = readZipEntry(data, "word/document.xml");
+  if (!documentXml) throw new Error("docx is missing word/document.xml");
+  const xml = documentXml.toString("utf8");
+  const drafts: Draft[] = [];
+  let page = 1;
+
+  const blocks = /<w:tbl>[\s\S]*?<\/w:tbl>|<w:p\b[^>]*?(?:\/>|>[\s\S]*?<\/w:p>)/g;
+  for (const [block] of xml.matchAll(blocks)) {
+    if (block.startsWith("<w:tbl>")) {
+      const rows = Array.from(block.matchAll(/<w:tr\b[\s\S]*?<\/w:tr>/g), ([row]) =>
+        Array.from(row.matchAll(/<w:tc\b[\s\S]*?<\/w:tc>/g), ([cell]) => xmlText(cell).trim()).join(
+          " | ",
+        ),
+      );
+      drafts.push({ type: "Table", text: rows.join("\n"), page });
+      continue;
+    }
+    if (/<w:br w:type="page"\/>|<w:lastRenderedPageBreak\/>/.test(block)) page += 1;
+    const text = xmlText(block);
+    if (!text.trim()) continue;
+    const style = block.match(/<w:pStyle w:val="([^"]+)"/)?.[1] ?? "";
+    const runs = block.match(/<w:r\b[\s\S]*?<\/w:r>/g) ?? [];
+    const textRuns = runs.filter((run) => /<w:t\b/.test(run));
+    const allBold =
+      textRuns.length > 0 && textRuns.every((run) => /<w:b\/>|<w:b w:val="(1|true)"\/>/.test(run));
+    let type = "NarrativeText";
+    if (/^(Title|Heading\d*|Subtitle)$/i.test(style) || (allBold && text.length < 120)) {
+      type = "Title";
+    } else if (/<w:numPr>/.test(block) || /List/i.test(style)) {
+      type = "ListItem";
+    }
+    drafts.push({ type, text, page });
+  }
+  return drafts;
+}
+
+export function partitionLocally(filename: string, data: Buffer): PartitionElement[] {
+  const ext = path.extname(filename).slice(1).toLowerCase();
+  switch (ext) {
+    case "txt":
+      return toElements(filename, "text/plain", partitionText(decodeBytes(data).text));
+    case "md":
+    case "markdown":
+      return toElements(filename, "text/markdown", partitionMarkdown(decodeBytes(data).text));
+    case "html":
+    case "htm":
+      return toElements(filename, "text/html", partitionHtml(decodeBytes(data).text));
+    case "eml":
+      return toElements(filename, "message/rfc822", partitionEml(data));
+    case "docx":
+      return toElements(
+        filename,
+        "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+        partitionDocx(data),
+      );
+    default:
+      throw new Error(`Local partitioner does not support .${ext || "(no extension)"} files`);
+  }
+}
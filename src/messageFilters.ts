@@ -0,0 +1,181 @@
+import { findHeader, parseAddresses, parseEmailDate, type GmailMessage } from "./emailExtractor";
+import { decodeEncodedWords } from "./mimeDecoding";
+
+// Each rule is also the CLI flag (`--exclude-label SPAM`) and the key of the `filtered` breakdown.
+export type FilterRule =
+  | "exclude-label"
+  | "include-label"
+  | "exclude-sender"
+  | "include-sender"
+  | "exclude-subject"
+  | "include-subject"
+  | "after"
+  | "before";
+
+// Evaluation order; a message is counted under the first rule that rejects it
+export const FILTER_RULES: FilterRule[] = [
+  "exclude-label",
+  "include-label",
+  "exclude-sender",
+  "include-sender",
+  "exclude-subject",
+  "include-subject",
+  "after",
+  "before",
+];
+
+const FILTER_ENV: Record<FilterRule, string> = {
+  "exclude-label": "GMAIL_EXCLUDE_LABELS",
+  "include-label": "GMAIL_INCLUDE_LABELS",
+  "exclude-sender": "GMAIL_EXCLUDE_SENDERS",
+  "include-sender": "GMAIL_INCLUDE_SENDERS",
+  "exclude-subject": "GMAIL_EXCLUDE_SUBJECT",
+  "include-subject": "GMAIL_INCLUDE_SUBJECT",
+  after: "GMAIL_AFTER",
+  before: "GMAIL_BEFORE",
+};
+
+export type MessageFilters = {
+  includeLabels: string[]; // upper-cased Gmail label ids; at least one must be present
+  excludeLabels: string[];
+  includeSenders: string[]; // lower-cased addresses, or domains (`example.com` / `@example.com`)
+  excludeSenders: string[];
+  includeSubjects: RegExp[]; // case-insensitive; at least one must match
+  excludeSubjects: RegExp[];
+  after?: number; // epoch ms, inclusive
+  before?: number; // epoch ms, exclusive
+};
+
+export const emptyFilters = (): MessageFilters => ({
+  includeLabels: [],
+  excludeLabels: [],
+  includeSenders: [],
+  excludeSenders: [],
+  includeSubjects: [],
+  excludeSubjects: [],
+});
+
+export const isFilterRule = (value: string): value is FilterRule =>
+  (FILTER_RULES as string[]).includes(value);
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean);
+
+function parseDate(rule: FilterRule, value: string): number {
+  const ts = Date.parse(value);
+  if (Number.isNaN(ts)) throw new Error(`Invalid ${rule} date: ${value}`);
+  return ts;
+}
+
+function parsePattern(rule: FilterRule, value: string): RegExp {
+  try {
+    return new RegExp(value, "i");
+  } catch (err) {
+    throw new Error(`Invalid ${rule} pattern ${value}: ${(err as Error).message}`);
+  }
+}
+
+// Lists are comma-separated and add to what is already set; subjects take one regex per call, and
+// dates replace the current bound.
+export function addFilterRule(filters: MessageFilters, rule: FilterRule, value: string) {
+  switch (rule) {
+    case "exclude-label":
+      filters.excludeLabels.push(...splitList(value).map((l) => l.toUpperCase()));
+      break;
+    case "include-label":
+      filters.includeLabels.push(...splitList(value).map((l) => l.toUpperCase()));
+      break;
+    case "exclude-sender":
+      filters.excludeSenders.push(...splitList(value).map((s) => s.toLowerCase()));
+      break;
+    case "include-sender":
+      filters.includeSenders.push(...splitList(value).map((s) => s.toLowerCase()));
+      break;
+    case "exclude-subject":
+      filters.excludeSubjects.push(parsePattern(rule, value));
+      break;
+    case "include-subject":
+      filters.includeSubjects.push(parsePattern(rule, value));
+      break;
+    case "after":
+      filters.after = parseDate(rule, value);
+      break;
+    case "before":
+      filters.before = parseDate(rule, value);
+      break;
+  }
+}
+
+export function loadMessageFilters(): MessageFilters {
+  const filters = emptyFilters();
+  for (const rule of FILTER_RULES) {
+    const value = process.env[FILTER_ENV[rule]];
+    if (value) addFilterRule(filters, rule, value);
+  }
+  return filters;
+}
+
+export function describeFilters(filters: MessageFilters): string {
+  const parts: string[] = [];
+  const list = (rule: FilterRule, values: Array<string | RegExp>) => {
+    if (values.length > 0) parts.push(`${rule}=${values.map(String).join(",")}`);
+  };
+  list("exclude-label", filters.excludeLabels);
+  list("include-label", filters.includeLabels);
+  list("exclude-sender", filters.excludeSenders);
+  list("include-sender", filters.includeSenders);
+  list("exclude-subject", filters.excludeSubjects);
+  list("include-subject", filters.includeSubjects);
+  if (filters.after !== undefined) parts.push(`after=${new Date(filters.after).toISOString()}`);
+  if (filters.before !== undefined) parts.push(`before=${new Date(filters.before).toISOString()}`);
+  return parts.join(" ");
+}
+
+// `example.com` and `@example.com` match the domain and its subdomains; anything else with an
+// `@` is a full address.
+function senderMatches(address: string, pattern: string): boolean {
+  if (pattern.includes("@") && !pattern.startsWith("@")) return address === pattern;
+  const domain = pattern.replace(/^@/, "");
+  const addressDomain = address.slice(address.lastIndexOf("@") + 1);
+  return addressDomain === domain || addressDomain.endsWith(`.${domain}`);
+}
+
+// Reads only labels and headers, so a message is filtered before its body is decoded. Messages
+// without a usable date fail the date rules.
+export function filterMessage(filters: MessageFilters, record: GmailMessage): FilterRule | null {
+  const core: GmailMessage = record._airbyte_data ?? record.data ?? record;
+  const headers = core.payload?.headers;
+  const labels = (core.labelIds ?? []).map((l) => l.toUpperCase());
+  const senders = parseAddresses(decodeEncodedWords(findHeader(headers, "From")));
+  const subject = decodeEncodedWords(findHeader(headers, "Subject")) ?? "";
+  const timestamp = parseEmailDate(findHeader(headers, "Date"), core.internalDate);
+
+  const anySender = (patterns: string[]) =>
+    senders.some((address) => patterns.some((p) => senderMatches(address, p)));
+
+  if (filters.excludeLabels.some((l) => labels.includes(l))) return "exclude-label";
+  if (filters.includeLabels.length > 0 && !filters.includeLabels.some((l) => labels.includes(l))) {
+    return "include-label";
+  }
+  if (anySender(filters.excludeSenders)) return "exclude-sender";
+  if (filters.includeSenders.length > 0 && !anySender(filters.includeSenders)) {
+    return "include-sender";
+  }
+  if (filters.excludeSubjects.some((re) => re.test(subject))) return "exclude-subject";
+  if (
+    filters.includeSubjects.length > 0 &&
+    !filters.includeSubjects.some((re) => re.test(subject))
+  ) {
+    return "include-subject";
+  }
+  if (filters.after !== undefined && (timestamp === undefined || timestamp < filters.after)) {
+    return "after";
+  }
+  if (filters.before !== undefined && (timestamp === undefined || timestamp >= filters.before)) {
+    return "before";
+  }
+  return null;
+}
@@ -0,0 +1,82 @@
+import { Buffer } from "node:buffer";
+
+export type DecodedText = {
+  text: string;
+  charset: string; // charset actually used to decode
+  fallback: boolean; // true when the declared charset was missing, unsupported or wrong
+};
+
+// Pulls a parameter like `charset` out of a header value such as `text/plain; charset="UTF-8"`.
+export function headerParam(value: string | undefined, name: string): string | undefined {
+  if (!value) return undefined;
+  const match = value.match(new RegExp(`;\\s*${name}\\s*=\\s*("([^"]*)"|[^;\\s]+)`, "i"));
+  if (!match) return undefined;
+  return (match[2] ?? match[1])?.trim() || undefined;
+}
+
+type EncodingLabel = ConstructorParameters<typeof TextDecoder>[0];
+
+function tryDecode(bytes: Uint8Array, charset: string): string | null {
+  try {
+    return new TextDecoder(charset as EncodingLabel, { fatal: true }).decode(bytes);
+  } catch {
+    // Unsupported label or bytes that are invalid in this charset
+    return null;
+  }
+}
+
+export function decodeBytes(bytes: Uint8Array, declared?: string): DecodedText {
+  const charset = declared?.toLowerCase().replace(/^"|"$/g, "");
+  if (charset) {
+    const text = tryDecode(bytes, charset);
+    if (text !== null) return { text, charset, fallback: false };
+  } else {
+    const text = tryDecode(bytes, "utf-8");
+    if (text !== null) return { text, charset: "utf-8", fallback: false };
+  }
+  if (charset !== "utf-8") {
+    const text = tryDecode(bytes, "utf-8");
+    if (text !== null) return { text, charset: "utf-8", fallback: true };
+  }
+  // windows-1252 maps every byte, so this never fails
+  return {
+    text: new TextDecoder("windows-1252").decode(bytes),
+    charset: "windows-1252",
+    fallback: true,
+  };
+}
+
+export function decodeQuotedPrintable(bytes: Uint8Array): Uint8Array {
+  const input = Buffer.from(bytes)
+    .toString("latin1")
+    .replace(/=\r?\n/g, "");
+  const out: number[] = [];
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i]!;
+    const hex = input.slice(i + 1, i + 3);
+    if (ch === "=" && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      out.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      out.push(input.charCodeAt(i) & 0xff);
+    }
+  }
+  return Uint8Array.from(out);
+}
+
+const ENCODED_WORD = /=\?([^?\s]+)\?([BbQq])\?([^?\s]*)\?=/g;
+
+// RFC 2047: `=?charset?B|Q?text?=`, with whitespace between adjacent encoded-words dropped.
+export function decodeEncodedWords(value: string | undefined): string | undefined {
+  if (!value || !value.includes("=?")) return value;
+  const joined = value.replace(/(\?=)\s+(?==\?)/g, "$1");
+  return joined.replace(ENCODED_WORD, (match, charset: string, kind: string, text: string) => {
+    const label = charset.split("*")[0]!; // RFC 2231 language suffix
+    const bytes =
+      kind.toUpperCase() === "B"
+        ? Buffer.from(text, "base64")
+        : decodeQuotedPrintable(Buffer.from(text.replace(/_/g, " "), "latin1"));
+    const decoded = tryDecode(bytes, label);
+    return decoded ?? match;
+  });
+}
@@ -0,0 +1,119 @@
+import path from "node:path";
+import { UnstructuredClient } from "unstructured-client";
+import { type PartitionResponse } from "unstructured-client/sdk/models/operations";
+import { Strategy } from "unstructured-client/sdk/models/shared";
+import type { PartitionElement } from "./chunking";
+import { LOCAL_EXTENSIONS, partitionLocally } from "./localPartitioner";
+
+export interface Partitioner {
+  name: string;
+  supports(filename: string): boolean;
+  partition(filename: string, data: Buffer): Promise<PartitionElement[]>;
+}
+
+type PartitionerName = "unstructured" | "local";
+
+export type PartitionerConfig = {
+  defaultPartitioner: PartitionerName;
+  byExtension: Record<string, PartitionerName>; // e.g. { txt: "local" }
+  fallback: boolean; // retry with the local partitioner when the remote call fails
+};
+
+const NAMES: PartitionerName[] = ["unstructured", "local"];
+
+const extOf = (filename: string) => path.extname(filename).slice(1).toLowerCase();
+
+function asName(value: string, source: string): PartitionerName {
+  const name = value.trim().toLowerCase() as PartitionerName;
+  if (!NAMES.includes(name)) {
+    throw new Error(`Unknown partitioner ${value} in ${source} (expected ${NAMES.join(", ")})`);
+  }
+  return name;
+}
+
+export function loadPartitionerConfig(): PartitionerConfig {
+  const byExtension: Record<string, PartitionerName> = {};
+  // PARTITIONER_BY_TYPE=txt=local,md=local,pdf=unstructured
+  for (const pair of (process.env.PARTITIONER_BY_TYPE || "").split(",").filter(Boolean)) {
+    const [ext, name] = pair.split("=");
+    if (!ext || !name) throw new Error(`Invalid PARTITIONER_BY_TYPE entry: ${pair}`);
+    byExtension[ext.trim().replace(/^\./, "").toLowerCase()] = asName(name, "PARTITIONER_BY_TYPE");
+  }
+  return {
+    defaultPartitioner: asName(process.env.PARTITIONER || "unstructured", "PARTITIONER"),
+    byExtension,
+    fallback: !["0", "false", "no", "off"].includes(
+      (process.env.PARTITIONER_FALLBACK || "true").toLowerCase(),
+    ),
+  };
+}
+
+let unstructuredClient: UnstructuredClient | null = null;
+
+export const unstructuredPartitioner: Partitioner = {
+  name: "unstructured",
+  supports: () => true,
+  async partition(filename, data) {
+    unstructuredClient ??= new UnstructuredClient({
+      serverURL: process.env.UNSTRUCTURED_API_URL!,
+      security: {
+        apiKeyAuth: process.env.UNSTRUCTURED_API_KEY!,
+      },
+    });
+    const response: PartitionResponse = await unstructuredClient.general.partition({
+      partitionParameters: {
+        files: {
+          content: data,
+          fileName: filename,
+        },
+        strategy: Strategy.HiRes,
+        splitPdfPage: true,
+        splitPdfAllowFailed: true,
+        splitPdfConcurrencyLevel: 15,
+        languages: ["eng"],
+      },
+    });
+    return Array.isArray(response) ? (response as PartitionElement[]) : [];
+  },
+};
+
+export const localPartitioner: Partitioner = {
+  name: "local",
+  supports: (filename) => LOCAL_EXTENSIONS.includes(extOf(filename)),
+  async partition(filename, data) {
+    return partitionLocally(filename, data);
+  },
+};
+
+const PARTITIONERS: Record<PartitionerName, Partitioner> = {
+  unstructured: unstructuredPartitioner,
+  local: localPartitioner,
+};
+
+export function selectPartitioner(filename: string, config: PartitionerConfig): Partitioner {
+  const name = config.byExtension[extOf(filename)] ?? config.defaultPartitioner;
+  return PARTITIONERS[name];
+}
+
+export async function partitionDocument(
+  filename: string,
+  data: Buffer,
+  config: PartitionerConfig = loadPartitionerConfig(),
+): Promise<{ elements: PartitionElement[]; partitioner: string }> {
+  const primary = selectPartitioner(filename, config);
+  try {
+    return { elements: await primary.partition(filename, data), partitioner: primary.name };
+  } catch (error) {
+    const canFallBack =
+      config.fallback && primary !== localPartitioner && localPartitioner.supports(filename);
+    if (!canFallBack) throw error;
+    console.warn(
+      `⚠ ${primary.name} partitioning failed for ${filename} (${(error as Error).message}); ` +
+        `falling back to the local partitioner`,
+    );
+    return {
+      elements: await localPartitioner.partition(filename, data),
+      partitioner: localPartitioner.name,
+    };
+  }
+}
@@ -0,0 +1,138 @@
+import { SQL } from "bun";
+
+// `pending` = stored but not (yet) embedded; the rest track a processDocument run.
+export type SyncStatus = "pending" | "ingesting" | "indexed" | "failed";
+
+export type ConnectorRecord = {
+  workspaceId: string | null;
+  airbyteConnectionId: string;
+  name: string;
+  type: string; // e.g. "google_drive", "gmail"
+  status: string;
+};
+
+export type FileRecord = {
+  workspaceId: string | null;
+  connectorId: string; // connectors.id, as returned by upsertConnector
+  path: string; // S3 key, unique per file
+  format: string | null;
+  mimeType: string | null;
+  size: number | null;
+  checksum: string | null;
+  isViewable?: boolean;
+};
+
+export interface FileStore {
+  // Returns the connectors.id for the Airbyte connection, creating the row if needed
+  upsertConnector(connector: ConnectorRecord): Promise<string>;
+  // Inserts or updates the files row for `file.path`; returns files.id
+  upsertFile(file: FileRecord, status: SyncStatus): Promise<string>;
+  setSyncStatus(path: string, status: SyncStatus, error?: string): Promise<void>;
+  deleteFile(path: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+// DATABASE_URL wins; otherwise a Supabase project's direct connection is built from
+// SUPABASE_DB_HOST + SUPABASE_PASSWORD.
+export function databaseUrl(): string | null {
+  if (process.env.DATABASE_URL) return process.env.DATABASE_URL;
+  const host = process.env.SUPABASE_DB_HOST;
+  const password = process.env.SUPABASE_PASSWORD;
+  if (!host || !password) return null;
+  const port = process.env.SUPABASE_DB_PORT || "5432";
+  const user = process.env.SUPABASE_DB_USER || "postgres";
+  return `postgres://${user}:${encodeURIComponent(password)}@${host}:${port}/postgres`;
+}
+
+function postgresFileStore(url: string): FileStore {
+  const sql = new SQL(url);
+  return {
+    async upsertConnector(connector) {
+      const now = new Date();
+      const [row] = await sql<{ id: string }[]>`
+        insert into connectors (workspace_id, airbyte_connection_id, name, type, status, updated_at)
+        values (${connector.workspaceId}, ${connector.airbyteConnectionId}, ${connector.name},
+                ${connector.type}, ${connector.status}, ${now})
+        on conflict (airbyte_connection_id) do update set
+          workspace_id = excluded.workspace_id,
+          name = excluded.name,
+          type = excluded.type,
+          status = excluded.status,
+          updated_at = excluded.updated_at
+        returning id`;
+      if (!row)
+        throw new Error(`Connector upsert returned no row for ${connector.airbyteConnectionId}`);
+      return String(row.id);
+    },
+
+    async upsertFile(file, status) {
+      const now = new Date();
+      const [row] = await sql<{ id: string }[]>`
+        insert into files (workspace_id, connector_id, path, format, mime_type, size, checksum,
+                           is_viewable, sync_status, sync_error, last_synced_at, created_at, updated_at)
+        values (${file.workspaceId}, ${file.connectorId}, ${file.path}, ${file.format},
+                ${file.mimeType}, ${file.size}, ${file.checksum}, ${file.isViewable ?? true},
+                ${status}, ${null}, ${now}, ${now}, ${now})
+        on conflict (path) do update set
+          workspace_id = excluded.workspace_id,
+          connector_id = excluded.connector_id,
+          format = excluded.format,
+          mime_type = excluded.mime_type,
+          size = excluded.size,
+          checksum = excluded.checksum,
+          is_viewable = excluded.is_viewable,
+          sync_status = excluded.sync_status,
+          sync_error = null,
+          last_synced_at = excluded.last_synced_at,
+          updated_at = excluded.updated_at
+        returning id`;
+      if (!row) throw new Error(`File upsert returned no row for ${file.path}`);
+      return String(row.id);
+    },
+
+    async setSyncStatus(path, status, error) {
+      const now = new Date();
+      await sql`
+        update files set sync_status = ${status}, sync_error = ${error ?? null},
+          last_synced_at = ${now}, updated_at = ${now}
+        where path = ${path}`;
+    },
+
+    async deleteFile(path) {
+      await sql`delete from files where path = ${path}`;
+    },
+
+    async close() {
+      await sql.close();
+    },
+  };
+}
+
+// Used for dry runs and when no database is configured: logs the rows instead of writing them.
+export function previewFileStore(): FileStore {
+  return {
+    async upsertConnector(connector) {
+      console.log(JSON.stringify({ connectors: { upsert: connector } }, null, 2));
+      return `(connector for ${connector.airbyteConnectionId})`;
+    },
+    async upsertFile(file, status) {
+      console.log(JSON.stringify({ files: { upsert: { ...file, syncStatus: status } } }, null, 2));
+      return `(file ${file.path})`;
+    },
+    async setSyncStatus(path, status, error) {
+      console.log(`files.sync_status ${path} -> ${status}${error ? ` (${error})` : ""}`);
+    },
+    async deleteFile(path) {
+      console.log(`files.delete ${path}`);
+    },
+    async close() {},
+  };
+}
+
+export function openFileStore(url: string | null = databaseUrl()): FileStore {
+  if (!url) {
+    console.warn("No DATABASE_URL or SUPABASE_DB_HOST/SUPABASE_PASSWORD set; logging rows only.");
+    return previewFileStore();
+  }
+  return postgresFileStore(url);
+}
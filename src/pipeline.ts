@@ -0,0 +1,104 @@
+// Small async building blocks for the Gmail processors: read ahead of the consumer and run a
+// bounded number of workers, without changing the order items are handed out in.
+
+type Prefetched<T> = AsyncIterable<T> & { cancel(): Promise<void> };
+
+// Starts consuming `source` right away and keeps up to `size` items buffered ahead of the reader.
+export function prefetch<T>(source: () => AsyncIterable<T>, size: number): Prefetched<T> {
+  const buffer: T[] = [];
+  let done = false;
+  let cancelled = false;
+  let error: unknown = null;
+  let wakeReader: (() => void) | null = null;
+  let wakePump: (() => void) | null = null;
+  const notify = (which: "reader" | "pump") => {
+    const wake = which === "reader" ? wakeReader : wakePump;
+    if (which === "reader") wakeReader = null;
+    else wakePump = null;
+    wake?.();
+  };
+
+  const pump = (async () => {
+    try {
+      for await (const item of source()) {
+        if (cancelled) break;
+        buffer.push(item);
+        notify("reader");
+        while (buffer.length >= size && !cancelled) {
+          await new Promise<void>((resolve) => (wakePump = resolve));
+        }
+        if (cancelled) break;
+      }
+    } catch (err) {
+      error = err;
+    } finally {
+      done = true;
+      notify("reader");
+    }
+  })();
+
+  return {
+    async *[Symbol.asyncIterator]() {
+      for (;;) {
+        if (buffer.length > 0) {
+          const item = buffer.shift()!;
+          notify("pump");
+          yield item;
+          continue;
+        }
+        if (done) {
+          if (error) throw error;
+          return;
+        }
+        await new Promise<void>((resolve) => (wakeReader = resolve));
+      }
+    },
+    async cancel() {
+      cancelled = true;
+      notify("pump");
+      await pump;
+    },
+  };
+}
+
+// Yields every source in order while reading up to `ahead` of them concurrently.
+export async function* concatPrefetched<T>(
+  sources: Array<() => AsyncIterable<T>>,
+  ahead: number,
+  bufferSize: number,
+): AsyncGenerator<T> {
+  const started: Prefetched<T>[] = [];
+  const start = (idx: number) => {
+    if (idx < sources.length && !started[idx]) started[idx] = prefetch(sources[idx]!, bufferSize);
+  };
+  try {
+    for (let idx = 0; idx < sources.length; idx++) {
+      for (let next = idx; next < idx + Math.max(1, ahead); next++) start(next);
+      yield* started[idx]!;
+    }
+  } finally {
+    await Promise.all(started.map((s) => s?.cancel()));
+  }
+}
+
+// Runs `worker` over `items` with at most `concurrency` calls in flight. Items are pulled in
+// order; if a worker throws, the rest are allowed to settle before the error is rethrown.
+export async function runPool<T>(
+  items: AsyncIterable<T>,
+  concurrency: number,
+  worker: (item: T) => Promise<void>,
+): Promise<void> {
+  const inFlight = new Set<Promise<void>>();
+  try {
+    for await (const item of items) {
+      const task: Promise<void> = worker(item).finally(() => inFlight.delete(task));
+      task.catch(() => {}); // observed by the race/allSettled below, not unhandled
+      inFlight.add(task);
+      if (inFlight.size >= Math.max(1, concurrency)) await Promise.race(inFlight);
+    }
+  } finally {
+    const results = await Promise.allSettled(inFlight);
+    const failure = results.find((r) => r.status === "rejected");
+    if (failure) throw (failure as PromiseRejectedResult).reason;
+  }
+}
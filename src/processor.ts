@@ -1,117 +1,699 @@
-import { HeadObjectCommand, PutObjectCommand, S3Client } from "@aws-sdk/client-s3";
-import { listJsonlKeys, readJsonlFromS3 } from "./jsonlReader";
-import { extractEmail, toEml, GmailMessage } from "./emailExtractor";
-import { AppConfig } from "./config";
+import { createHash } from "node:crypto";
+import { listJsonlObjects, MalformedLimitError, readJsonlLines } from "./jsonlReader";
+import {
+  base64UrlToBuffer,
+  extractEmail,
+  parseAddresses,
+  type EmailAttachment,
+  type ExtractedEmail,
+  type GmailMessage,
+} from "./emailExtractor";
+import { toEml, type AttachmentData } from "./emlWriter";
+import { cleanEmailBody, type CleanedBody } from "./bodyCleaner";
+import { fetchAttachment } from "./gmailApi";
+import { parseCount, type AppConfig } from "./config";
+import { openFileStore, previewFileStore, type FileStore } from "./persistence";
+import { concatPrefetched, runPool } from "./pipeline";
+import { readObject, type Storage } from "./storage";
+import {
+  describeFilters,
+  filterMessage,
+  type FilterRule,
+  type MessageFilters,
+} from "./messageFilters";
+import { lineWatermark, loadCheckpoints } from "./checkpoints";
+import {
+  deleteDeadLetter,
+  listDeadLetters,
+  listDocumentDeadLetters,
+  readDeadLetter,
+  readDocumentDeadLetter,
+  writeDeadLetter,
+  writeDocumentDeadLetter,
+  type DeadLetter,
+  type FailureStage,
+} from "./deadLetters";
 
 export type ProcessorOptions = {
   limit?: number;
   dryRun?: boolean;
+  ingestAttachments?: boolean;
+  embed?: boolean;
+  concurrency?: number; // messages in flight at once (default GMAIL_CONCURRENCY or 8)
+  maxMalformed?: number; // strict mode: abort a file once it has more malformed lines than this
+  restart?: boolean; // ignore saved line checkpoints and read every file from the start
+  embedBody?: EmbedBody; // what --embed sends (default GMAIL_EMBED_BODY or clean)
 };
 
-type Counters = { processed: number; created: number; skipped: number; failed: number };
+// `clean` embeds the cleaned `<id>.txt`, `original` the full `.eml` with quotes and signatures
+export type EmbedBody = "clean" | "original";
 
-async function exists(s3: S3Client, bucket: string, key: string): Promise<boolean> {
+const defaultEmbedBody = (): EmbedBody =>
+  process.env.GMAIL_EMBED_BODY === "original" ? "original" : "clean";
+
+// JSONL files read ahead of the one being processed, and records buffered per file
+const READ_AHEAD_FILES = 2;
+const READ_AHEAD_RECORDS = 64;
+
+// How often line checkpoints are flushed to disk while messages are processed
+const CHECKPOINT_SAVE_INTERVAL_MS = 2000;
+
+type Counters = {
+  processed: number;
+  created: number;
+  skipped: number;
+  failed: number;
+  attachments: number;
+  decodeFallbacks: number;
+  embedded: number;
+  malformed: number;
+  abortedFiles: number;
+  deadLettered: number;
+  filtered: number;
+  filteredBy: Partial<Record<FilterRule, number>>;
+};
+
+const newCounters = (): Counters => ({
+  processed: 0,
+  created: 0,
+  skipped: 0,
+  failed: 0,
+  attachments: 0,
+  decodeFallbacks: 0,
+  embedded: 0,
+  malformed: 0,
+  abortedFiles: 0,
+  deadLettered: 0,
+  filtered: 0,
+  filteredBy: {},
+});
+
+// Qdrant payload fields for filtering search by sender, recipients, label or date range.
+function emailPayload(config: AppConfig, email: ExtractedEmail): Record<string, unknown> {
+  return {
+    connector_id: config.connectorId,
+    connector_type: "gmail",
+    source: "gmail",
+    message_id: email.messageId,
+    thread_id: email.threadId ?? null,
+    from: email.from ?? null,
+    from_address: parseAddresses(email.from)[0] ?? null,
+    to: email.to ?? null,
+    to_addresses: parseAddresses(email.to),
+    cc: email.cc ?? null,
+    cc_addresses: parseAddresses(email.cc),
+    subject: email.subject ?? null,
+    date: email.timestamp !== undefined ? new Date(email.timestamp).toISOString() : null,
+    date_ts: email.timestamp ?? null,
+    label_ids: email.labelIds,
+  };
+}
+
+// The cleaned body under the headers search filters on, stored next to the .eml as `<id>.txt`.
+function cleanedDocument(email: ExtractedEmail, cleaned: CleanedBody): string {
+  const header = (name: string, value?: string) => (value ? `${name}: ${value}\n` : "");
+  return (
+    header("Subject", email.subject) +
+    header("From", email.from) +
+    header("To", email.to) +
+    header("Cc", email.cc) +
+    header("Date", email.date) +
+    `\n${cleaned.text}\n`
+  );
+}
+
+type DocumentInput = Parameters<typeof import("../index").processDocument>[0];
+
+// ../index builds the Qdrant client (and checks its version) on load, so it is only imported once a
+// run actually embeds something.
+async function processDocument(input: DocumentInput) {
+  const pipeline = await import("../index");
+  return pipeline.processDocument(input);
+}
+
+// Moves the files row through ingesting -> indexed, or failed if the pipeline throws.
+async function trackIngestion(store: FileStore, path: string, ingest: () => Promise<unknown>) {
+  try {
+    await ingest();
+  } catch (error) {
+    await store.setSyncStatus(path, "failed", (error as Error).message);
+    throw error;
+  }
+  await store.setSyncStatus(path, "indexed");
+}
+
+const sha256 = (data: Buffer | string) => createHash("sha256").update(data).digest("hex");
+
+export function messageIdOf(record: GmailMessage): string | null {
+  return (
+    record.id ||
+    (record as any)._airbyte_data?.id ||
+    (record as any).data?.id ||
+    (record as any).message?.id ||
+    (record as any).messageId ||
+    null
+  );
+}
+
+const safeFilename = (name: string) => name.replace(/[\/\\]/g, "_").trim() || "attachment";
+
+async function attachmentData(
+  config: AppConfig,
+  msgId: string,
+  attachment: EmailAttachment,
+): Promise<Buffer | null> {
+  if (attachment.data) return base64UrlToBuffer(attachment.data);
+  if (!attachment.attachmentId) return null;
+  if (!config.gmailAccessToken) {
+    console.warn(
+      `Attachment ${attachment.filename} of ${msgId} is not inlined and GMAIL_ACCESS_TOKEN is not set; skipping`,
+    );
+    return null;
+  }
+  return fetchAttachment(config.gmailAccessToken, msgId, attachment.attachmentId);
+}
+
+type ResolvedAttachment = {
+  attachment: EmailAttachment;
+  key: string;
+  data: Buffer | null;
+};
+
+async function resolveAttachments(
+  config: AppConfig,
+  msgId: string,
+  attachments: EmailAttachment[],
+  dryRun: boolean,
+): Promise<ResolvedAttachment[]> {
+  const prefix = `${config.rawFilesPrefix}${config.workspaceId}/gmail/${msgId}/attachments/`;
+  const usedNames = new Set<string>();
+  const resolved: ResolvedAttachment[] = [];
+
+  for (const attachment of attachments) {
+    let name = safeFilename(attachment.filename);
+    if (usedNames.has(name)) name = `${attachment.partId ?? usedNames.size}-${name}`;
+    usedNames.add(name);
+    // Dry runs never download attachment bodies
+    const data = dryRun ? null : await attachmentData(config, msgId, attachment);
+    resolved.push({ attachment, key: `${prefix}${name}`, data });
+  }
+
+  return resolved;
+}
+
+async function storeAttachments(
+  storage: Storage,
+  config: AppConfig,
+  msgId: string,
+  threadId: string | undefined,
+  emlKey: string,
+  attachments: ResolvedAttachment[],
+  store: FileStore,
+  connectorId: string,
+  opts: { dryRun: boolean; ingest: boolean },
+): Promise<number> {
+  let written = 0;
+
+  for (const { attachment, key, data } of attachments) {
+    if (opts.dryRun) {
+      console.log(
+        `(Preview only) Would create ${key} (${attachment.mimeType}, ${attachment.size} bytes)`,
+      );
+      continue;
+    }
+    if (!data) continue;
+
+    await storage.put(key, data, {
+      contentType: attachment.mimeType,
+      metadata: { "parent-message-id": msgId },
+    });
+    written += 1;
+    console.log(`Created ${key}`);
+
+    const ext = attachment.filename.split(".").slice(1).pop();
+    await store.upsertFile(
+      {
+        workspaceId: config.workspaceId,
+        connectorId,
+        path: key,
+        format: ext ? ext.toLowerCase() : null,
+        mimeType: attachment.mimeType,
+        size: data.length,
+        checksum: sha256(data),
+      },
+      opts.ingest ? "ingesting" : "pending",
+    );
+
+    if (opts.ingest) {
+      await trackIngestion(store, key, () =>
+        processDocument({
+          filename: key,
+          data,
+          workspaceId: config.workspaceId,
+          metadata: {
+            connector_id: config.connectorId,
+            connector_type: "gmail",
+            source: "gmail_attachment",
+            parent_message_id: msgId,
+            parent_thread_id: threadId ?? null,
+            parent_path: emlKey,
+            attachment_mime_type: attachment.mimeType,
+          },
+        }),
+      );
+    }
+  }
+
+  return written;
+}
+
+type MessageContext = {
+  storage: Storage;
+  config: AppConfig;
+  store: FileStore;
+  connectorId: string;
+  counters: Counters;
+  dryRun: boolean;
+  embed: boolean;
+  ingestAttachments: boolean;
+  replace: boolean; // replays rewrite the .eml instead of skipping it when it already exists
+  embedBody: EmbedBody;
+  filters?: MessageFilters;
+};
+
+type MessageOutcome = { ok: true } | { ok: false; stage: FailureStage; error: Error };
+
+async function processMessage(
+  ctx: MessageContext,
+  { key, record }: { key: string; record: GmailMessage },
+  msgId: string | null,
+): Promise<MessageOutcome> {
+  const { storage, config, store, connectorId, counters, dryRun } = ctx;
+  let stage: FailureStage = "extract";
   try {
-    await s3.send(new HeadObjectCommand({ Bucket: bucket, Key: key }));
-    return true;
+    if (!msgId) throw new Error(`Missing message id; keys=${Object.keys(record).join(",")}`);
+
+    const rule = ctx.filters ? filterMessage(ctx.filters, record) : null;
+    if (rule) {
+      counters.filtered += 1;
+      counters.filteredBy[rule] = (counters.filteredBy[rule] ?? 0) + 1;
+      console.log(`Filtered ${msgId} (${rule})`);
+      return { ok: true };
+    }
+
+    const targetKey = `${config.rawFilesPrefix}${config.workspaceId}/gmail/${msgId}.eml`;
+
+    if (!ctx.replace && (await storage.head(targetKey))) {
+      counters.skipped += 1;
+      console.log(`Skipping existing ${targetKey}`);
+      return { ok: true };
+    }
+
+    const email = extractEmail(record);
+    if (email.decodeFallback) {
+      counters.decodeFallbacks += 1;
+      console.warn(`Body of ${msgId} needed a fallback decode (used ${email.charset})`);
+    }
+    const attachments = await resolveAttachments(config, msgId, email.attachments, dryRun);
+    const inlined: AttachmentData = new Map();
+    for (const { attachment, data } of attachments) {
+      if (data && attachment.partId !== undefined) inlined.set(attachment.partId, data);
+    }
+    const eml = toEml(email, inlined);
+    const cleaned = cleanEmailBody(email.body, email.bodyMime);
+    const textKey = targetKey.replace(/\.eml$/, ".txt");
+    const text = cleanedDocument(email, cleaned);
+    const embedKey = ctx.embedBody === "clean" ? textKey : targetKey;
+    const row = (path: string, format: string, mimeType: string, content: Buffer | string) => ({
+      workspaceId: config.workspaceId,
+      connectorId,
+      path,
+      format,
+      mimeType,
+      size: Buffer.byteLength(content),
+      checksum: sha256(content),
+    });
+    const rows = [
+      row(targetKey, "eml", "message/rfc822", eml),
+      row(textKey, "txt", "text/plain", text),
+    ];
+
+    stage = "upload";
+    if (dryRun) {
+      for (const r of rows) await store.upsertFile(r, "pending");
+      console.log(`(Preview only) Would create ${targetKey} and ${textKey}`);
+    } else {
+      await storage.put(targetKey, eml, { contentType: "message/rfc822" });
+      await storage.put(textKey, text, { contentType: "text/plain; charset=utf-8" });
+      counters.created += 1;
+      console.log(`Created ${targetKey} and ${textKey}`);
+      for (const r of rows) {
+        await store.upsertFile(r, ctx.embed && r.path === embedKey ? "ingesting" : "pending");
+      }
+
+      if (ctx.embed) {
+        stage = "ingest";
+        await trackIngestion(store, embedKey, () =>
+          processDocument({
+            filename: embedKey,
+            data: Buffer.from(embedKey === textKey ? text : eml),
+            workspaceId: config.workspaceId,
+            metadata: {
+              ...emailPayload(config, email),
+              body_variant: ctx.embedBody,
+              eml_path: targetKey,
+              text_path: textKey,
+              has_quoted: cleaned.quoted !== null,
+              has_signature: cleaned.signature !== null,
+            },
+          }),
+        );
+        counters.embedded += 1;
+      }
+    }
+
+    if (attachments.length > 0) {
+      stage = "attachments";
+      const core = record._airbyte_data ?? record.data ?? record;
+      counters.attachments += await storeAttachments(
+        storage,
+        config,
+        msgId,
+        core.threadId,
+        targetKey,
+        attachments,
+        store,
+        connectorId,
+        { dryRun, ingest: ctx.ingestAttachments },
+      );
+    }
+    return { ok: true };
   } catch (err: any) {
-    if (err?.$metadata?.httpStatusCode === 404) return false;
-    if (err?.name === "NotFound") return false;
-    throw err;
+    counters.failed += 1;
+    console.warn(`Error processing message ${msgId} from ${key} (${stage}): ${err.message}`);
+    return { ok: false, stage, error: err as Error };
   }
 }
 
 export async function processMessages(
-  s3: S3Client,
+  storage: Storage,
   config: AppConfig,
   opts: ProcessorOptions = {},
 ): Promise<Counters> {
-  const counters: Counters = { processed: 0, created: 0, skipped: 0, failed: 0 };
+  const counters = newCounters();
   const limit = opts.limit ?? Infinity;
   const dryRun = opts.dryRun ?? false;
+  const concurrency =
+    opts.concurrency ?? parseCount(process.env.GMAIL_CONCURRENCY || "8", "GMAIL_CONCURRENCY");
+
+  const objects = await listJsonlObjects(storage, config.detailsPrefix);
+  console.log(`Found ${objects.length} JSONL file(s) under ${config.detailsPrefix}`);
+  const filters = describeFilters(config.filters);
+  if (filters) console.log(`Filters: ${filters}`);
 
-  const keys = await listJsonlKeys(s3, config.bucket, config.detailsPrefix);
-  console.log(`Found ${keys.length} JSONL file(s) under ${config.detailsPrefix}`);
+  // Dry runs resume like a real run but never move the checkpoints forward
+  const checkpoints = loadCheckpoints(
+    process.env.GMAIL_CHECKPOINT_FILE || ".gmail-checkpoints.json",
+  );
+  const watermarks = new Map<string, ReturnType<typeof lineWatermark>>();
+  let lastSave = Date.now();
+  const commitLine = (key: string, etag: string | null) => {
+    if (dryRun) return;
+    checkpoints.commit(`${storage.location}/${key}`, etag, watermarks.get(key)!.committed());
+    if (Date.now() - lastSave >= CHECKPOINT_SAVE_INTERVAL_MS) {
+      checkpoints.save();
+      lastSave = Date.now();
+    }
+  };
+
+  // Dry runs never touch the database; the rows are only logged
+  const store = dryRun ? previewFileStore() : openFileStore();
+  try {
+    const connectorId = await store.upsertConnector({
+      workspaceId: config.workspaceId,
+      airbyteConnectionId: config.connectorId,
+      name: config.connectorName,
+      type: "gmail",
+      status: "synced",
+    });
+    const ctx: MessageContext = {
+      storage,
+      config,
+      store,
+      connectorId,
+      counters,
+      dryRun,
+      embed: opts.embed ?? false,
+      ingestAttachments: opts.ingestAttachments ?? false,
+      embedBody: opts.embedBody ?? defaultEmbedBody(),
+      replace: false,
+      filters: config.filters,
+    };
 
-  for (const key of keys) {
-    console.log(`Reading ${key}...`);
-    for await (const record of readJsonlFromS3<GmailMessage>(s3, config.bucket, key)) {
+    // A failed record is kept under the dead-letter prefix for `replay`. Once it is safely
+    // there its line can be committed; if the letter cannot be written the line is read again.
+    const deadLetter = async (
+      item: { key: string; line: number; record: GmailMessage },
+      msgId: string | null,
+      outcome: MessageOutcome,
+    ): Promise<boolean> => {
+      if (outcome.ok) return true;
+      const letter: DeadLetter = {
+        version: 1,
+        messageId: msgId,
+        stage: outcome.stage,
+        error: outcome.error.message,
+        source: { bucket: storage.location, key: item.key, line: item.line },
+        options: { embed: ctx.embed, ingestAttachments: ctx.ingestAttachments },
+        attempts: 1,
+        failedAt: new Date().toISOString(),
+        record: item.record,
+      };
+      if (dryRun) {
+        console.log(`(Preview only) Would dead-letter ${msgId ?? `${item.key}:${item.line}`}`);
+        return false;
+      }
       try {
-        if (counters.processed >= limit) return counters;
-        counters.processed += 1;
-
-        const msgId =
-          record.id ||
-          (record as any)._airbyte_data?.id ||
-          (record as any).data?.id ||
-          (record as any).message?.id ||
-          (record as any).messageId ||
-          null;
-        if (!msgId) {
-          counters.failed += 1;
-          console.warn(
-            `Missing message id in ${key}, skipping; keys=${Object.keys(record).join(",")}`,
-          );
-          continue;
-        }
+        const letterKey = await writeDeadLetter(storage, config, letter);
+        counters.deadLettered += 1;
+        console.log(`Dead-lettered ${msgId ?? `${item.key}:${item.line}`} to ${letterKey}`);
+        return true;
+      } catch (err) {
+        console.error(`✗ Could not write dead letter for ${msgId}: ${(err as Error).message}`);
+        return false;
+      }
+    };
 
-        const targetKey = `${config.rawFilesPrefix}${config.workspaceId}/gmail/${msgId}.eml`;
+    // Malformed lines and an aborted file travel in the stream as markers, so read-ahead past
+    // `limit` doesn't count them; only what is reached before the limit does.
+    type ReadItem =
+      | { key: string; etag: string | null; line: number; record: GmailMessage }
+      | { key: string; malformed: number }
+      | { key: string; aborted: MalformedLimitError };
 
-        const already = await exists(s3, config.bucket, targetKey);
-        if (already) {
-          counters.skipped += 1;
-          console.log(`Skipping existing ${targetKey}`);
-          continue;
+    const readFile = ({ key, etag }: { key: string; etag: string | null }) =>
+      async function* (): AsyncGenerator<ReadItem> {
+        const startAfterLine = opts.restart
+          ? 0
+          : checkpoints.resumeAfter(`${storage.location}/${key}`, etag);
+        watermarks.set(key, lineWatermark(startAfterLine));
+        if (startAfterLine > 0) console.log(`Resuming ${key} after line ${startAfterLine}...`);
+        else console.log(`Reading ${key}...`);
+        let malformed = 0;
+        try {
+          const lines = readJsonlLines<GmailMessage>(storage, key, {
+            startAfterLine,
+            maxMalformed: opts.maxMalformed,
+            onMalformed: () => (malformed += 1),
+          });
+          for await (const { line, value: record } of lines) {
+            if (malformed > 0) yield { key, malformed };
+            malformed = 0;
+            yield { key, etag, line, record };
+          }
+          if (malformed > 0) yield { key, malformed };
+        } catch (err) {
+          if (!(err instanceof MalformedLimitError)) throw err;
+          if (malformed > 0) yield { key, malformed };
+          yield { key, aborted: err };
         }
+      };
 
-        const email = extractEmail(record);
-        const eml = toEml(email);
-
-        // Preview log
-        console.log(
-          JSON.stringify(
-            {
-              files: {
-                insert: {
-                  workspace_id: config.workspaceId,
-                  connector_id: config.connectorId,
-                  path: targetKey,
-                  format: "eml",
-                  mime_type: "message/rfc822",
-                  size: eml.length,
-                  checksum: null,
-                  is_viewable: true,
-                  sync_status: "synced",
-                },
-              },
-            },
-            null,
-            2,
-          ),
-        );
+    // Records are handed out in file/line order and `limit` counts them at hand-out, so the same
+    // messages are processed whatever the worker count.
+    async function* limited() {
+      const records = concatPrefetched(objects.map(readFile), READ_AHEAD_FILES, READ_AHEAD_RECORDS);
+      for await (const item of records) {
+        if (counters.processed >= limit) return;
+        if ("malformed" in item) {
+          counters.malformed += item.malformed;
+        } else if ("aborted" in item) {
+          // Messages already read from the file are still processed; the rest is skipped
+          counters.abortedFiles += 1;
+          console.error(`✗ Aborting ${item.key}: ${item.aborted.message}`);
+        } else {
+          counters.processed += 1;
+          watermarks.get(item.key)!.dispatched(item.line);
+          yield item;
+        }
+      }
+    }
+
+    // Messages with the same id are handled one after another, in read order, so a duplicate
+    // sees the object its predecessor uploaded exactly as it would in a sequential run.
+    const claims = new Map<string, Promise<void>>();
 
+    await runPool(limited(), concurrency, async (item) => {
+      const msgId = messageIdOf(item.record);
+      const previous = msgId ? claims.get(msgId) : undefined;
+      const current = (async () => {
+        await previous;
+        const outcome = await processMessage(ctx, item, msgId);
+        const ok = await deadLetter(item, msgId, outcome);
+        watermarks.get(item.key)!.finished(item.line, ok);
+        commitLine(item.key, item.etag);
+      })();
+      if (msgId) claims.set(msgId, current);
+      await current;
+      if (msgId && claims.get(msgId) === current) claims.delete(msgId);
+    });
+  } finally {
+    if (!dryRun) checkpoints.save();
+    await store.close();
+  }
+
+  return counters;
+}
+
+export type ReplayOptions = {
+  limit?: number;
+  dryRun?: boolean;
+  embed?: boolean;
+  ingestAttachments?: boolean;
+  embedBody?: EmbedBody;
+};
+
+type ReplayCounters = { letters: number; resolved: number; failing: number };
+
+// Re-runs dead-lettered records and removes the letters that now succeed. A record runs with the
+// pipeline options it failed under (plus any given here), and its .eml is rewritten even when an
+// earlier attempt already uploaded it. Records that fail again keep their letter, updated.
+// Documents dead-lettered by the Airbyte runner are ingested again from their source object.
+export async function replayDeadLetters(
+  storage: Storage,
+  config: AppConfig,
+  opts: ReplayOptions = {},
+): Promise<ReplayCounters> {
+  const replay: ReplayCounters = { letters: 0, resolved: 0, failing: 0 };
+  const dryRun = opts.dryRun ?? false;
+
+  const letters = [
+    ...(await listDeadLetters(storage, config)).map((key) => ({ key, document: false })),
+    ...(await listDocumentDeadLetters(storage, config)).map((key) => ({ key, document: true })),
+  ];
+  console.log(`Found ${letters.length} dead letter(s) under ${config.deadLetterPrefix}`);
+
+  const store = dryRun ? previewFileStore() : openFileStore();
+  try {
+    const connectorId = await store.upsertConnector({
+      workspaceId: config.workspaceId,
+      airbyteConnectionId: config.connectorId,
+      name: config.connectorName,
+      type: "gmail",
+      status: "synced",
+    });
+
+    // Both return whether the letter is resolved; one that fails again is rewritten
+    const replayMessage = async (key: string) => {
+      const letter = await readDeadLetter(storage, key);
+      console.log(
+        `Replaying ${key} (failed at ${letter.stage}, attempt ${letter.attempts + 1}): ${letter.error}`,
+      );
+      const ctx: MessageContext = {
+        storage,
+        config,
+        store,
+        connectorId,
+        counters: newCounters(),
+        dryRun,
+        embed: letter.options.embed || (opts.embed ?? false),
+        ingestAttachments: letter.options.ingestAttachments || (opts.ingestAttachments ?? false),
+        embedBody: opts.embedBody ?? defaultEmbedBody(),
+        replace: true, // no filters: the letter already passed those of the run that wrote it
+      };
+      const outcome = await processMessage(
+        ctx,
+        { key: letter.source.key, record: letter.record },
+        letter.messageId,
+      );
+      if (!outcome.ok && !dryRun) {
+        await writeDeadLetter(storage, config, {
+          ...letter,
+          stage: outcome.stage,
+          error: outcome.error.message,
+          attempts: letter.attempts + 1,
+          failedAt: new Date().toISOString(),
+        });
+      }
+      return outcome.ok;
+    };
+
+    const replayDocument = async (key: string) => {
+      const letter = await readDocumentDeadLetter(storage, key);
+      const filename = letter.source.key;
+      console.log(`Replaying ${key} (attempt ${letter.attempts + 1}): ${letter.error}`);
+      if (dryRun) {
+        console.log(`(Preview only) Would ingest ${filename}`);
+        return true;
+      }
+      try {
+        const data = await readObject(storage, filename);
+        await processDocument({
+          filename,
+          data,
+          workspaceId: letter.workspaceId,
+          metadata: letter.metadata,
+        });
+        await store.setSyncStatus(filename, "indexed");
+        return true;
+      } catch (err) {
+        const error = (err as Error).message;
+        console.error(`✗ Error ingesting ${filename}: ${error}`);
+        await store.setSyncStatus(filename, "failed", error);
+        await writeDocumentDeadLetter(storage, config.deadLetterPrefix, {
+          ...letter,
+          error,
+          attempts: letter.attempts + 1,
+          failedAt: new Date().toISOString(),
+        });
+        return false;
+      }
+    };
+
+    for (const { key, document } of letters.slice(0, opts.limit ?? letters.length)) {
+      replay.letters += 1;
+      // An unreadable letter, or one that cannot be updated or removed, is failing; the rest run
+      try {
+        const resolved = document ? await replayDocument(key) : await replayMessage(key);
+        if (!resolved) {
+          replay.failing += 1;
+          continue;
+        }
         if (dryRun) {
-          console.log(`(Preview only) Would create ${targetKey}`);
+          console.log(`(Preview only) Would remove ${key}`);
         } else {
-          await s3.send(
-            new PutObjectCommand({
-              Bucket: config.bucket,
-              Key: targetKey,
-              Body: eml,
-              ContentType: "message/rfc822",
-            }),
-          );
-          counters.created += 1;
-          console.log(`Created ${targetKey}`);
+          await deleteDeadLetter(storage, key);
+          console.log(`Resolved ${key}`);
         }
-      } catch (err: any) {
-        counters.failed += 1;
-        console.warn(
-          `Error processing message ${msgId} from ${key}: ${(err as Error).message}`,
-        );
+        replay.resolved += 1;
+      } catch (err) {
+        replay.failing += 1;
+        console.error(`✗ Could not replay ${key}: ${(err as Error).message}`);
       }
     }
+  } finally {
+    await store.close();
   }
 
-  return counters;
+  return replay;
 }
@@ -0,0 +1,167 @@
+import { afterAll, beforeEach, describe, expect, mock, test } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import type { AppConfig } from "./config";
+import { emptyFilters } from "./messageFilters";
+import type { FileStore } from "./persistence";
+import { localDirectoryStorage, readObject, type Storage } from "./storage";
+
+// Qdrant and Postgres stand-ins: `indexed` is what listDocumentFilenames returns, and every point
+// or files row removal is recorded.
+let indexed: string[] = [];
+let deletedDocuments: string[] = [];
+let deletedRows: string[] = [];
+
+mock.module("../index", () => ({
+  listDocumentFilenames: async () => indexed,
+  deleteDocument: async (filename: string) => {
+    deletedDocuments.push(filename);
+  },
+}));
+
+const persistence = { ...(await import("./persistence")) };
+const store: FileStore = {
+  upsertConnector: async () => "connector",
+  upsertFile: async () => "file",
+  setSyncStatus: async () => {},
+  deleteFile: async (filePath) => {
+    deletedRows.push(filePath);
+  },
+  close: async () => {},
+};
+mock.module("./persistence", () => ({ ...persistence, openFileStore: () => store }));
+
+const { DeletionLimitError, reconcileDeletions } = await import("./reconcile");
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), "reconcile-"));
+afterAll(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+const gmail = "files/ws/gmail/";
+let storage: Storage;
+let config: AppConfig;
+
+beforeEach(() => {
+  const root = fs.mkdtempSync(path.join(tmp, "run-"));
+  storage = localDirectoryStorage(root);
+  config = {
+    storage: { backend: "local", root },
+    airbytePrefix: "raw/",
+    messagesPrefix: "raw/messages/",
+    detailsPrefix: "raw/messages_details/",
+    rawFilesPrefix: "files/",
+    deadLetterPrefix: "raw/dead-letters/",
+    workspaceId: "ws",
+    connectorId: "conn",
+    connectorName: "Gmail",
+    filters: emptyFilters(),
+  };
+  indexed = [];
+  deletedDocuments = [];
+  deletedRows = [];
+});
+
+// The mailbox listing as one Airbyte run; `syncId: null` leaves it to be grouped by folder.
+async function listing(ids: string[], syncId: number | null = 7) {
+  const meta = syncId === null ? {} : { _airbyte_meta: { sync_id: syncId } };
+  const lines = ids.map((id) => JSON.stringify({ ...meta, _airbyte_data: { id } }));
+  await storage.put("raw/messages/2025_03_03/messages.jsonl", lines.join("\n"));
+}
+
+// Exported and indexed the way the Gmail ingest leaves them.
+async function exported(...ids: string[]) {
+  for (const id of ids) {
+    await storage.put(`${gmail}${id}.eml`, `Message-ID: <${id}>\r\n\r\nbody`);
+    await storage.put(`${gmail}${id}.txt`, `body of ${id}`);
+    indexed.push(`${gmail}${id}.txt`);
+  }
+}
+
+const keys = async () => (await storage.list("")).map((o) => o.key).sort();
+
+describe("reconcileDeletions", () => {
+  test("a dry run reports stale messages and changes nothing", async () => {
+    await listing(["a"]);
+    await exported("a", "b");
+    const before = await keys();
+
+    const report = await reconcileDeletions(storage, config, { dryRun: true });
+    expect(report).toMatchObject({ syncId: "7", current: 1, exported: 2, indexed: 2, removed: 0 });
+    expect(report.stale).toEqual([
+      { messageId: "b", objects: [`${gmail}b.eml`, `${gmail}b.txt`], documents: [`${gmail}b.txt`] },
+    ]);
+    expect(await keys()).toEqual(before);
+    expect(deletedDocuments).toEqual([]);
+    expect(deletedRows).toEqual([]);
+  });
+
+  test("refuses a run with more stale messages than the limit", async () => {
+    await listing(["a"]);
+    await exported("a", "b", "c");
+    const before = await keys();
+
+    const run = reconcileDeletions(storage, config, { maxDeletions: 1 });
+    await expect(run).rejects.toBeInstanceOf(DeletionLimitError);
+    await expect(run).rejects.toThrow("2 message(s) are gone from the mailbox");
+    expect(await keys()).toEqual(before);
+    expect(deletedDocuments).toEqual([]);
+
+    // A preview over the limit still reports
+    const preview = await reconcileDeletions(storage, config, { dryRun: true, maxDeletions: 1 });
+    expect(preview.stale.map((m) => m.messageId)).toEqual(["b", "c"]);
+  });
+
+  test("tombstones by default: moves the objects under deleted/ and records the sync", async () => {
+    await listing(["a"]);
+    await exported("a", "b");
+
+    const report = await reconcileDeletions(storage, config);
+    expect(report).toMatchObject({ removed: 1, failed: 0 });
+    expect(deletedDocuments).toEqual([`${gmail}b.txt`]);
+    expect(deletedRows.sort()).toEqual([`${gmail}b.eml`, `${gmail}b.txt`]);
+    expect(await keys()).toEqual([
+      `${gmail}a.eml`,
+      `${gmail}a.txt`,
+      `${gmail}deleted/b.eml`,
+      `${gmail}deleted/b.json`,
+      `${gmail}deleted/b.txt`,
+      "raw/messages/2025_03_03/messages.jsonl",
+    ]);
+    const tombstone = JSON.parse((await readObject(storage, `${gmail}deleted/b.json`)).toString());
+    expect(tombstone).toMatchObject({ messageId: "b", syncId: "7" });
+    expect((await readObject(storage, `${gmail}deleted/b.txt`)).toString()).toBe("body of b");
+  });
+
+  test("--purge deletes the objects and writes no tombstone", async () => {
+    await listing(["a"]);
+    await exported("a", "b");
+
+    const report = await reconcileDeletions(storage, config, { purge: true });
+    expect(report.removed).toBe(1);
+    expect(deletedDocuments).toEqual([`${gmail}b.txt`]);
+    expect(await keys()).toEqual([
+      `${gmail}a.eml`,
+      `${gmail}a.txt`,
+      "raw/messages/2025_03_03/messages.jsonl",
+    ]);
+  });
+
+  test("aborts when the listing has no sync id, is missing or is empty", async () => {
+    await exported("a");
+    await expect(reconcileDeletions(storage, config)).rejects.toThrow(
+      "No message listings under raw/messages/",
+    );
+
+    await listing(["a"], null);
+    await expect(reconcileDeletions(storage, config)).rejects.toThrow("has no Airbyte sync id");
+
+    await storage.put("raw/messages/2025_03_03/messages.jsonl", "");
+    await storage.put(
+      "raw/messages/2025_03_03/messages.jsonl.airbyte_meta.json",
+      JSON.stringify({ sync_id: 8 }),
+    );
+    await expect(reconcileDeletions(storage, config)).rejects.toThrow("Sync 8 lists no messages");
+    expect(await keys()).toContain(`${gmail}a.eml`);
+    expect(deletedDocuments).toEqual([]);
+  });
+});
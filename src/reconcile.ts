@@ -0,0 +1,262 @@
+import { groupRuns, listAllObjects, resolveSyncIds } from "./airbyteRuns";
+import { parseCount, type AppConfig } from "./config";
+import type { GmailMessage } from "./emailExtractor";
+import { isJsonlKey, readJsonlRecords } from "./jsonlReader";
+import { openFileStore } from "./persistence";
+import { messageIdOf } from "./processor";
+import type { Storage } from "./storage";
+import { pruneThreads } from "./threads";
+
+export type ReconcileOptions = {
+  dryRun?: boolean;
+  purge?: boolean; // delete the stored objects instead of moving them under `deleted/`
+  maxDeletions?: number; // default GMAIL_MAX_DELETIONS or 50
+};
+
+export type StaleMessage = {
+  messageId: string;
+  objects: string[]; // .eml, .txt and attachment keys
+  documents: string[]; // filenames with points in Qdrant
+};
+
+export type ReconcileReport = {
+  syncId: string; // Airbyte run the mailbox listing came from
+  current: number; // ids in that listing
+  exported: number; // messages with stored objects
+  indexed: number; // messages with points
+  stale: StaleMessage[];
+  removed: number;
+  failed: number;
+  threadsPruned: number; // thread documents rewritten or deleted without the removed messages
+};
+
+export class DeletionLimitError extends Error {
+  constructor(
+    readonly stale: number,
+    readonly limit: number,
+  ) {
+    super(
+      `${stale} message(s) are gone from the mailbox, more than the limit of ${limit} per run; ` +
+        `check the listing with --dry-run and raise --max-deletions if it is right`,
+    );
+    this.name = "DeletionLimitError";
+  }
+}
+
+const defaultMaxDeletions = () =>
+  parseCount(process.env.GMAIL_MAX_DELETIONS || "50", "GMAIL_MAX_DELETIONS", 0);
+
+const gmailRoot = (config: AppConfig) => `${config.rawFilesPrefix}${config.workspaceId}/gmail/`;
+
+// Folders under the Gmail root that are not per-message attachment folders
+const NON_MESSAGE_DIRS = new Set(["threads", "deleted"]);
+
+// `<root><id>.eml`, `<root><id>.txt` and `<root><id>/attachments/...` belong to message `<id>`.
+function messageIdOfKey(root: string, key: string): string | null {
+  if (!key.startsWith(root)) return null;
+  const rest = key.slice(root.length);
+  const slash = rest.indexOf("/");
+  if (slash >= 0) {
+    const dir = rest.slice(0, slash);
+    return dir && !NON_MESSAGE_DIRS.has(dir) ? dir : null;
+  }
+  return /^(.+)\.(eml|txt)$/.exec(rest)?.[1] ?? null;
+}
+
+function groupByMessage(root: string, keys: string[]): Map<string, string[]> {
+  const byMessage = new Map<string, string[]>();
+  for (const key of keys) {
+    const id = messageIdOfKey(root, key);
+    if (!id) continue;
+    byMessage.set(id, [...(byMessage.get(id) ?? []), key]);
+  }
+  return byMessage;
+}
+
+// Every id in the latest Airbyte run of the messages stream, i.e. what is in the mailbox now.
+// Any unreadable line aborts, since a missing id would look like a deleted message.
+async function currentMessageIds(
+  storage: Storage,
+  config: AppConfig,
+): Promise<{ syncId: string; ids: Set<string> }> {
+  const listed = await listAllObjects(storage, config.messagesPrefix);
+  listed.objects = listed.objects.filter((o) => isJsonlKey(o.key));
+  const runs = groupRuns(await resolveSyncIds(storage, config.messagesPrefix, listed));
+  const latest = runs.at(-1);
+  if (!latest) throw new Error(`No message listings under ${config.messagesPrefix}`);
+  // Without a sync id every file is its own "run", so the latest would be a fragment of the listing
+  if (latest.source === "folder") {
+    throw new Error(
+      `The latest listing under ${config.messagesPrefix} (${latest.syncId}) has no Airbyte ` +
+        `sync id; refusing to treat messages missing from it as deleted`,
+    );
+  }
+
+  const ids = new Set<string>();
+  for (const object of latest.objects) {
+    for await (const record of readJsonlRecords<GmailMessage>(storage, object.key, {
+      maxMalformed: 0,
+    })) {
+      const id = messageIdOf(record);
+      if (!id) throw new Error(`Record without a message id in ${object.key}`);
+      ids.add(id);
+    }
+  }
+  if (ids.size === 0) {
+    throw new Error(`Sync ${latest.syncId} lists no messages; refusing to treat all as deleted`);
+  }
+  return { syncId: latest.syncId, ids };
+}
+
+// Copies the object under `deleted/` (same relative path) and removes the original.
+async function moveToDeleted(storage: Storage, root: string, key: string) {
+  const { body, contentType } = await storage.get(key);
+  const chunks: Buffer[] = [];
+  for await (const chunk of body) chunks.push(Buffer.from(chunk));
+  await storage.put(`${root}deleted/${key.slice(root.length)}`, Buffer.concat(chunks), {
+    contentType,
+  });
+  await storage.delete(key);
+}
+
+// Compares the mailbox listing with the exported objects and indexed points, then removes the
+// messages that are no longer in the mailbox from Qdrant, the files table and storage.
+export async function reconcileDeletions(
+  storage: Storage,
+  config: AppConfig,
+  opts: ReconcileOptions = {},
+): Promise<ReconcileReport> {
+  const dryRun = opts.dryRun ?? false;
+  const purge = opts.purge ?? false;
+  const maxDeletions = opts.maxDeletions ?? defaultMaxDeletions();
+  const root = gmailRoot(config);
+  // Loaded here rather than at the top so other CLI commands don't construct the Qdrant client
+  const { deleteDocument, listDocumentFilenames } = await import("../index");
+
+  const { syncId, ids } = await currentMessageIds(storage, config);
+  const objectKeys = (await storage.list(root)).map((o) => o.key);
+  const exported = groupByMessage(root, objectKeys);
+  const documentFilenames = await listDocumentFilenames(config.workspaceId, "gmail");
+  const indexed = groupByMessage(root, documentFilenames);
+  console.log(
+    `Mailbox listing from sync ${syncId}: ${ids.size} message(s); ` +
+      `${exported.size} exported, ${indexed.size} indexed under ${root}`,
+  );
+
+  // A tombstoned message that is back in the mailbox is exported again by the next run; its
+  // tombstone goes so thread mode takes it back too
+  for (const key of objectKeys) {
+    const id = /^deleted\/([^/]+)\.json$/.exec(key.slice(root.length))?.[1];
+    if (!id || !ids.has(id)) continue;
+    if (dryRun) {
+      console.log(`(Preview only) Would drop the tombstone of ${id}, back in the mailbox`);
+    } else {
+      await storage.delete(key);
+      console.log(`Dropped the tombstone of ${id}, back in the mailbox`);
+    }
+  }
+
+  const stale: StaleMessage[] = [...new Set([...exported.keys(), ...indexed.keys()])]
+    .filter((id) => !ids.has(id))
+    .sort()
+    .map((messageId) => ({
+      messageId,
+      objects: exported.get(messageId) ?? [],
+      documents: indexed.get(messageId) ?? [],
+    }));
+  const report: ReconcileReport = {
+    syncId,
+    current: ids.size,
+    exported: exported.size,
+    indexed: indexed.size,
+    stale,
+    removed: 0,
+    failed: 0,
+    threadsPruned: 0,
+  };
+
+  const action = purge ? "delete" : "tombstone";
+  for (const message of stale) {
+    console.log(
+      `${dryRun ? "(Preview only) Would " : ""}${action} ${message.messageId}: ` +
+        `${message.objects.length} object(s), ${message.documents.length} indexed document(s)`,
+    );
+  }
+  if (stale.length > maxDeletions) {
+    if (dryRun) {
+      console.warn(`⚠ ${stale.length} stale message(s) exceed the limit of ${maxDeletions}`);
+    } else {
+      throw new DeletionLimitError(stale.length, maxDeletions);
+    }
+  }
+  if (stale.length === 0) return report;
+  if (dryRun) {
+    const pruned = await pruneThreads(storage, config, new Set(stale.map((m) => m.messageId)), {
+      dryRun,
+    });
+    for (const { jsonKey, removed, thread } of pruned) {
+      console.log(
+        `(Preview only) Would ${thread ? "rewrite" : "delete"} ${jsonKey} ` +
+          `without ${removed.length} message(s)`,
+      );
+    }
+    report.threadsPruned = pruned.length;
+    return report;
+  }
+
+  const store = openFileStore();
+  const removedIds = new Set<string>();
+  try {
+    for (const message of stale) {
+      try {
+        // Objects last, so a run that stops midway still finds the message by them next time
+        for (const filename of message.documents) {
+          await deleteDocument(filename, config.workspaceId);
+        }
+        for (const path of new Set([...message.objects, ...message.documents])) {
+          await store.deleteFile(path);
+        }
+        for (const key of message.objects) {
+          if (purge) await storage.delete(key);
+          else await moveToDeleted(storage, root, key);
+        }
+        if (!purge) {
+          const tombstone = {
+            messageId: message.messageId,
+            deletedAt: new Date().toISOString(),
+            syncId,
+            objects: message.objects,
+            documents: message.documents,
+          };
+          await storage.put(
+            `${root}deleted/${message.messageId}.json`,
+            JSON.stringify(tombstone, null, 2),
+            { contentType: "application/json" },
+          );
+        }
+        report.removed += 1;
+        removedIds.add(message.messageId);
+        console.log(`${purge ? "Deleted" : "Tombstoned"} ${message.messageId}`);
+      } catch (err) {
+        report.failed += 1;
+        console.error(`✗ Error removing ${message.messageId}: ${(err as Error).message}`);
+      }
+    }
+
+    // Thread documents would still show the removed messages
+    try {
+      for (const { jsonKey, removed, thread } of await pruneThreads(storage, config, removedIds)) {
+        report.threadsPruned += 1;
+        console.log(
+          `${thread ? "Rewrote" : "Deleted"} ${jsonKey} without ${removed.length} message(s)`,
+        );
+      }
+    } catch (err) {
+      report.failed += 1;
+      console.error(`✗ Error pruning thread documents: ${(err as Error).message}`);
+    }
+  } finally {
+    await store.close();
+  }
+  return report;
+}
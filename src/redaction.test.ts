@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import {
+  BUILTIN_DETECTORS,
+  createRedactor,
+  loadRedactionPolicy,
+  redactValue,
+  type RedactionPolicy,
+} from "./redaction";
+
+// One detector at a time, so a value another one would claim (e.g. `phone`) can't hide a miss
+const only = (detector: string, action: RedactionPolicy["action"] = "mask") =>
+  createRedactor({ action, detectors: [detector], hashKey: "test-key" });
+
+describe("detectors", () => {
+  test.each([
+    ["email", "Write to Jane.Doe+news@example.co.uk today", "Write to [EMAIL] today"],
+    ["card", "Card 4111 1111 1111 1111 on file", "Card [CARD] on file"],
+    ["card", "Card 4111-1111-1111-1111 on file", "Card [CARD] on file"],
+    ["iban", "Pay GB82 WEST 1234 5698 7654 32 now", "Pay [IBAN] now"],
+    ["iban", "Pay DE89370400440532013000 now", "Pay [IBAN] now"],
+    ["ssn", "SSN 123-45-6789.", "SSN [SSN]."],
+    ["tfn", "TFN 123 456 782", "TFN [TFN]"],
+    ["phone", "Call +61 2 9374 4000 or (02) 9374-4000", "Call [PHONE] or [PHONE]"],
+  ])("%s finds %s", (detector, text, expected) => {
+    expect(only(detector).redact(text).text).toBe(expected);
+  });
+
+  test.each([
+    ["card", "Order 4111 1111 1111 1112 shipped"], // Luhn fails
+    ["iban", "Ref GB82 WEST 1234 5698 7654 33"], // mod 97 fails
+    ["ssn", "Case 000-12-3456"], // area 000 is never issued
+    ["ssn", "Case 666-12-3456"],
+    ["ssn", "Case 123-00-4567"],
+    ["tfn", "Invoice 123 456 789"], // weighted sum not divisible by 11
+    ["phone", "Due 2025-01-15"], // a date, not a number
+    ["phone", "Room 12 34"], // too few digits
+    ["email", "user at example dot com"],
+  ])("%s leaves %s alone", (detector, text) => {
+    const result = only(detector).redact(text);
+    expect(result.text).toBe(text);
+    expect(result.count).toBe(0);
+  });
+
+  test("checksummed identifiers are claimed before phone", () => {
+    const detectors = BUILTIN_DETECTORS.map((d) => d.name);
+    const redactor = createRedactor({ action: "mask", detectors });
+    const result = redactor.redact("Card 4111111111111111, TFN 123456782, phone 0412 345 678");
+    expect(result.text).toBe("Card [CARD], TFN [TFN], phone [PHONE]");
+    expect(result.kinds).toEqual({ card: 1, tfn: 1, phone: 1 });
+  });
+});
+
+describe("actions", () => {
+  test("mask replaces with the upper-cased detector name", () => {
+    expect(only("email").redact("a@b.io").text).toBe("[EMAIL]");
+  });
+
+  test("drop removes the value", () => {
+    expect(only("email", "drop").redact("mail a@b.io now").text).toBe("mail  now");
+  });
+
+  test("hash gives one keyed token per normalised value", () => {
+    const hashed = only("email", "hash");
+    const token = hashed.redact("Jane@Example.com").text;
+    expect(token).toMatch(/^\[EMAIL:[0-9a-f]{12}\]$/);
+    expect(hashed.redact("jane@example.com").text).toBe(token);
+    expect(hashed.redact("john@example.com").text).not.toBe(token);
+
+    const rotated = createRedactor({ action: "hash", detectors: ["email"], hashKey: "other" });
+    expect(rotated.redact("jane@example.com").text).not.toBe(token);
+    expect(rotated.settings).not.toBe(hashed.settings);
+  });
+
+  test("off leaves text as it is", () => {
+    const redactor = createRedactor({ action: "off", detectors: ["email"] });
+    expect(redactor.redact("a@b.io")).toEqual({ text: "a@b.io", count: 0, kinds: {} });
+    expect(redactor.settings).toBe("off");
+  });
+
+  test("hash needs a key and detectors must exist", () => {
+    expect(() => createRedactor({ action: "hash", detectors: ["email"] })).toThrow(
+      "REDACTION_HASH_KEY",
+    );
+    expect(() => createRedactor({ action: "mask", detectors: ["passport"] })).toThrow(
+      "Unknown PII detector passport",
+    );
+  });
+});
+
+describe("loadRedactionPolicy", () => {
+  const saved = { ...process.env };
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  test("applies per-workspace overrides and the detector list", () => {
+    process.env.REDACTION_POLICY = "mask";
+    process.env.REDACTION_BY_WORKSPACE = "ws-a=off, ws-b=hash";
+    process.env.REDACTION_DETECTORS = "Email, card";
+    expect(loadRedactionPolicy("ws-a").action).toBe("off");
+    expect(loadRedactionPolicy("ws-c")).toMatchObject({
+      action: "mask",
+      detectors: ["email", "card"],
+    });
+    process.env.REDACTION_POLICY = "scramble";
+    expect(() => loadRedactionPolicy(null)).toThrow("Unknown redaction policy scramble");
+  });
+});
+
+describe("redactValue", () => {
+  test("redacts every string in nested metadata and totals the kinds", () => {
+    const result = redactValue(only("email"), {
+      from: "a@b.io",
+      to: ["c@d.io", "team"],
+      nested: { note: "cc e@f.io", count: 3 },
+    });
+    expect(result.value).toEqual({
+      from: "[EMAIL]",
+      to: ["[EMAIL]", "team"],
+      nested: { note: "cc [EMAIL]", count: 3 },
+    });
+    expect(result.count).toBe(3);
+    expect(result.kinds).toEqual({ email: 3 });
+  });
+});
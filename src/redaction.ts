@@ -0,0 +1,219 @@
+import { createHash, createHmac } from "node:crypto";
+
+// What happens to a detected value: `mask` replaces it with `[KIND]`, `hash` with a keyed
+// pseudonym `[KIND:1a2b3c4d5e6f]` (the same value always gives the same token), `drop` removes it.
+export type RedactionAction = "mask" | "hash" | "drop";
+
+export interface PiiDetector {
+  name: string; // also the placeholder, upper-cased
+  pattern: RegExp; // must be global
+  validate?(match: string): boolean; // checksum or shape checks that rule out look-alikes
+  normalize?(match: string): string; // what gets hashed, so formatting differences don't matter
+}
+
+export type RedactionPolicy = {
+  action: RedactionAction | "off";
+  detectors: string[]; // names, applied in this order
+  hashKey?: string; // required for `hash`
+};
+
+export type Redaction = { text: string; count: number; kinds: Record<string, number> };
+
+export interface Redactor {
+  settings: string; // stored in the payload; a change re-ingests the document
+  redact(text: string): Redaction;
+}
+
+const digitsOf = (value: string) => value.replace(/\D/g, "");
+
+function luhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+// ISO 13616: move the country code and check digits to the end, letters become 10..35, mod 97 = 1
+function ibanChecksum(value: string): boolean {
+  const iban = value.replace(/\s/g, "").toUpperCase();
+  const rearranged = `${iban.slice(4)}${iban.slice(0, 4)}`;
+  let remainder = 0;
+  for (const ch of rearranged) {
+    const n = /\d/.test(ch) ? ch : String(ch.charCodeAt(0) - 55);
+    for (const d of n) remainder = (remainder * 10 + Number(d)) % 97;
+  }
+  return remainder === 1;
+}
+
+// Australian tax file number: weighted digit sum divisible by 11
+function tfnChecksum(value: string): boolean {
+  const digits = digitsOf(value);
+  const weights = [1, 4, 3, 7, 5, 8, 6, 9, 10];
+  if (digits.length !== 9) return false;
+  const sum = weights.reduce((acc, w, i) => acc + w * Number(digits[i]), 0);
+  return sum % 11 === 0;
+}
+
+const lower = (value: string) => value.toLowerCase();
+const compact = (value: string) => value.replace(/[^0-9A-Za-z+]/g, "").toUpperCase();
+
+// Checksummed identifiers run before `phone`, which would otherwise claim their digits.
+export const BUILTIN_DETECTORS: PiiDetector[] = [
+  {
+    name: "email",
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+    normalize: lower,
+  },
+  {
+    name: "iban",
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g,
+    validate: ibanChecksum,
+    normalize: compact,
+  },
+  {
+    name: "card",
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: (match) => luhn(digitsOf(match)),
+    normalize: compact,
+  },
+  {
+    // US social security number; the dashed form only, bare 9-digit runs are too ambiguous
+    name: "ssn",
+    pattern: /\b\d{3}-\d{2}-\d{4}\b/g,
+    validate: (match) => {
+      const [area, group, serial] = match.split("-");
+      return !/^(000|666|9)/.test(area!) && group !== "00" && serial !== "0000";
+    },
+    normalize: compact,
+  },
+  {
+    name: "tfn",
+    pattern: /\b\d{3}[ -]?\d{3}[ -]?\d{3}\b/g,
+    validate: tfnChecksum,
+    normalize: compact,
+  },
+  {
+    // 9 to 15 digits with optional +, brackets, spaces, dots or dashes; dates are left alone
+    name: "phone",
+    pattern: /(?<![\w+])\+?\(?\d[\d ().-]{7,}\d(?!\w)/g,
+    validate: (match) => {
+      const count = digitsOf(match).length;
+      return count >= 9 && count <= 15 && !/^\d{4}[-./]\d{1,2}[-./]\d{1,2}$/.test(match.trim());
+    },
+    normalize: compact,
+  },
+];
+
+const ACTIONS: Array<RedactionPolicy["action"]> = ["mask", "hash", "drop", "off"];
+
+function asAction(value: string, source: string): RedactionPolicy["action"] {
+  const action = value.trim().toLowerCase() as RedactionPolicy["action"];
+  if (!ACTIONS.includes(action)) {
+    throw new Error(
+      `Unknown redaction policy ${value} in ${source} (expected ${ACTIONS.join(", ")})`,
+    );
+  }
+  return action;
+}
+
+// REDACTION_POLICY is the default; REDACTION_BY_WORKSPACE=ws-a=hash,ws-b=off overrides it.
+export function loadRedactionPolicy(workspaceId: string | null): RedactionPolicy {
+  let action = asAction(process.env.REDACTION_POLICY || "mask", "REDACTION_POLICY");
+  for (const pair of (process.env.REDACTION_BY_WORKSPACE || "").split(",").filter(Boolean)) {
+    const [workspace, value] = pair.split("=");
+    if (!workspace || !value) throw new Error(`Invalid REDACTION_BY_WORKSPACE entry: ${pair}`);
+    if (workspace.trim() === workspaceId) action = asAction(value, "REDACTION_BY_WORKSPACE");
+  }
+  const detectors = (
+    process.env.REDACTION_DETECTORS || BUILTIN_DETECTORS.map((d) => d.name).join(",")
+  )
+    .split(",")
+    .map((d) => d.trim().toLowerCase())
+    .filter(Boolean);
+  return { action, detectors, hashKey: process.env.REDACTION_HASH_KEY || undefined };
+}
+
+// `detectors` lists what the policy's names can refer to; pass extra ones to plug in
+// organisation-specific identifiers.
+export function createRedactor(
+  policy: RedactionPolicy,
+  detectors: PiiDetector[] = BUILTIN_DETECTORS,
+): Redactor {
+  if (policy.action === "off") {
+    return { settings: "off", redact: (text) => ({ text, count: 0, kinds: {} }) };
+  }
+  const active = policy.detectors.map((name) => {
+    const detector = detectors.find((d) => d.name === name);
+    if (!detector) {
+      throw new Error(
+        `Unknown PII detector ${name} (expected ${detectors.map((d) => d.name).join(", ")})`,
+      );
+    }
+    return detector;
+  });
+  if (policy.action === "hash" && !policy.hashKey) {
+    throw new Error("The hash redaction policy needs REDACTION_HASH_KEY");
+  }
+  // Rotating the key changes every token, so its fingerprint is part of the settings
+  const action =
+    policy.action === "hash"
+      ? `hash-${createHash("sha256").update(policy.hashKey!).digest("hex").slice(0, 8)}`
+      : policy.action;
+
+  const replacement = (detector: PiiDetector, match: string) => {
+    const label = detector.name.toUpperCase();
+    if (policy.action === "drop") return "";
+    if (policy.action === "mask") return `[${label}]`;
+    const value = detector.normalize ? detector.normalize(match) : match;
+    const token = createHmac("sha256", policy.hashKey!).update(`${detector.name}:${value}`);
+    return `[${label}:${token.digest("hex").slice(0, 12)}]`;
+  };
+
+  return {
+    settings: `${action}:${active.map((d) => d.name).join(",")}`,
+    redact(text) {
+      let count = 0;
+      const kinds: Record<string, number> = {};
+      let out = text;
+      for (const detector of active) {
+        out = out.replace(detector.pattern, (match) => {
+          if (detector.validate && !detector.validate(match)) return match;
+          count += 1;
+          kinds[detector.name] = (kinds[detector.name] ?? 0) + 1;
+          return replacement(detector, match);
+        });
+      }
+      return { text: out, count, kinds };
+    },
+  };
+}
+
+// Redacts every string inside a JSON-like value (element metadata, payload fields), returning
+// the copy and what was replaced.
+export function redactValue<T>(
+  redactor: Redactor,
+  value: T,
+): { value: T; count: number; kinds: Record<string, number> } {
+  let count = 0;
+  const kinds: Record<string, number> = {};
+  const walk = (v: unknown): unknown => {
+    if (typeof v === "string") {
+      const result = redactor.redact(v);
+      count += result.count;
+      for (const [kind, n] of Object.entries(result.kinds)) kinds[kind] = (kinds[kind] ?? 0) + n;
+      return result.text;
+    }
+    if (Array.isArray(v)) return v.map(walk);
+    if (v && typeof v === "object") {
+      return Object.fromEntries(Object.entries(v).map(([k, item]) => [k, walk(item)]));
+    }
+    return v;
+  };
+  return { value: walk(value) as T, count, kinds };
+}
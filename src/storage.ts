@@ -0,0 +1,231 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import fs from "node:fs";
+import path from "node:path";
+import { Readable } from "node:stream";
+
+export type StoredObject = {
+  key: string;
+  size?: number;
+  lastModified?: Date;
+  etag?: string;
+};
+
+export type ObjectStream = {
+  body: Readable;
+  contentType?: string;
+  contentEncoding?: string;
+};
+
+export type PutOptions = {
+  contentType?: string;
+  metadata?: Record<string, string>;
+};
+
+// The object operations the Gmail and Airbyte workflows need. Keys are always `/`-separated,
+// whatever the backend.
+export type Storage = {
+  readonly location: string; // bucket name, or the root directory of a local tree
+  list(prefix: string): Promise<StoredObject[]>;
+  // `range` is inclusive, like an HTTP Range header
+  get(key: string, range?: { start: number; end: number }): Promise<ObjectStream>;
+  head(key: string): Promise<StoredObject | null>;
+  put(key: string, body: Buffer | string, opts?: PutOptions): Promise<void>;
+  delete(key: string): Promise<void>;
+};
+
+export type StorageConfig =
+  { backend: "s3"; bucket: string; region: string } | { backend: "local"; root: string };
+
+export class ObjectNotFoundError extends Error {
+  constructor(readonly key: string) {
+    super(`No such object: ${key}`);
+    this.name = "ObjectNotFoundError";
+  }
+}
+
+const isS3NotFound = (err: any) =>
+  err?.$metadata?.httpStatusCode === 404 || err?.name === "NoSuchKey" || err?.name === "NotFound";
+
+export function s3Storage(bucket: string, client: S3Client): Storage {
+  return {
+    location: bucket,
+    // Pages through every key under the prefix (ListObjectsV2 returns at most 1000 per call)
+    async list(prefix) {
+      const objects: StoredObject[] = [];
+      let continuationToken: string | undefined;
+      do {
+        const res = await client.send(
+          new ListObjectsV2Command({
+            Bucket: bucket,
+            Prefix: prefix,
+            ContinuationToken: continuationToken,
+          }),
+        );
+        for (const item of res.Contents ?? []) {
+          if (!item.Key) continue;
+          objects.push({
+            key: item.Key,
+            size: item.Size ?? undefined,
+            lastModified: item.LastModified ?? undefined,
+            etag: item.ETag ?? undefined,
+          });
+        }
+        continuationToken = res.IsTruncated ? res.NextContinuationToken : undefined;
+      } while (continuationToken);
+      return objects;
+    },
+    async get(key, range) {
+      try {
+        const obj = await client.send(
+          new GetObjectCommand({
+            Bucket: bucket,
+            Key: key,
+            Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+          }),
+        );
+        if (!obj.Body) throw new Error(`Empty object body for ${key}`);
+        return {
+          body: obj.Body as Readable,
+          contentType: obj.ContentType,
+          contentEncoding: obj.ContentEncoding,
+        };
+      } catch (err) {
+        if (isS3NotFound(err)) throw new ObjectNotFoundError(key);
+        throw err;
+      }
+    },
+    async head(key) {
+      try {
+        const res = await client.send(new HeadObjectCommand({ Bucket: bucket, Key: key }));
+        return {
+          key,
+          size: res.ContentLength ?? undefined,
+          lastModified: res.LastModified ?? undefined,
+          etag: res.ETag ?? undefined,
+        };
+      } catch (err) {
+        if (isS3NotFound(err)) return null;
+        throw err;
+      }
+    },
+    async put(key, body, opts = {}) {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          Body: body,
+          ContentType: opts.contentType,
+          Metadata: opts.metadata,
+        }),
+      );
+    },
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+    },
+  };
+}
+
+// A directory laid out like the bucket: key `raw/messages_details/a.jsonl` is the file
+// `<root>/raw/messages_details/a.jsonl`. Content types and metadata are not kept.
+export function localDirectoryStorage(root: string): Storage {
+  const base = path.resolve(root);
+  const fileFor = (key: string) => {
+    const file = path.resolve(base, ...key.split("/"));
+    if (file !== base && !file.startsWith(`${base}${path.sep}`)) {
+      throw new Error(`Key ${key} is outside ${base}`);
+    }
+    return file;
+  };
+  const describe = (key: string, stat: fs.Stats): StoredObject => ({
+    key,
+    size: stat.size,
+    lastModified: stat.mtime,
+    // Changes whenever the file is rewritten, which is all the sync state needs from an ETag
+    etag: `"${Math.round(stat.mtimeMs).toString(16)}-${stat.size.toString(16)}"`,
+  });
+  const missing = (err: any) => err?.code === "ENOENT" || err?.code === "ENOTDIR";
+
+  return {
+    location: base,
+    async list(prefix) {
+      const objects: StoredObject[] = [];
+      const walk = async (dir: string, keyPrefix: string) => {
+        let entries: fs.Dirent[];
+        try {
+          entries = await fs.promises.readdir(dir, { withFileTypes: true });
+        } catch (err) {
+          if (missing(err)) return;
+          throw err;
+        }
+        for (const entry of entries) {
+          const key = `${keyPrefix}${entry.name}`;
+          const full = path.join(dir, entry.name);
+          if (entry.isDirectory()) {
+            // Only descend into directories that can hold keys under the prefix
+            const dirKey = `${key}/`;
+            if (dirKey.startsWith(prefix) || prefix.startsWith(dirKey)) await walk(full, dirKey);
+          } else if (entry.isFile() && key.startsWith(prefix) && !key.endsWith(".tmp")) {
+            objects.push(describe(key, await fs.promises.stat(full)));
+          }
+        }
+      };
+      await walk(base, "");
+      // Same order as S3 listings
+      return objects.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+    },
+    async get(key, range) {
+      const file = fileFor(key);
+      try {
+        await fs.promises.access(file, fs.constants.R_OK);
+      } catch (err) {
+        if (missing(err)) throw new ObjectNotFoundError(key);
+        throw err;
+      }
+      return {
+        body: fs.createReadStream(file, range ? { start: range.start, end: range.end } : {}),
+      };
+    },
+    async head(key) {
+      try {
+        const stat = await fs.promises.stat(fileFor(key));
+        return stat.isFile() ? describe(key, stat) : null;
+      } catch (err) {
+        if (missing(err)) return null;
+        throw err;
+      }
+    },
+    async put(key, body) {
+      const file = fileFor(key);
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      const tmpPath = `${file}.tmp`;
+      await fs.promises.writeFile(tmpPath, body);
+      await fs.promises.rename(tmpPath, file);
+    },
+    async delete(key) {
+      await fs.promises.rm(fileFor(key), { force: true });
+    },
+  };
+}
+
+export function openStorage(config: StorageConfig): Storage {
+  if (config.backend === "local") return localDirectoryStorage(config.root);
+  return s3Storage(config.bucket, new S3Client({ region: config.region }));
+}
+
+export async function readObject(
+  storage: Storage,
+  key: string,
+  range?: { start: number; end: number },
+): Promise<Buffer> {
+  const { body } = await storage.get(key, range);
+  const chunks: Buffer[] = [];
+  for await (const chunk of body) chunks.push(Buffer.from(chunk));
+  return Buffer.concat(chunks);
+}
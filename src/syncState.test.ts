@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test";
+import {
+  checkRemovals,
+  planSync,
+  recordObject,
+  RemovalLimitError,
+  type ListedObject,
+  type SyncState,
+} from "./syncState";
+
+const tracked = (...keys: string[]): SyncState => {
+  const state: SyncState = { version: 1, objects: {} };
+  for (const key of keys) recordObject(state, { key, etag: `"${key}"` }, "indexed");
+  return state;
+};
+
+describe("checkRemovals", () => {
+  test("lets a run remove up to the limit", () => {
+    const state = tracked("a.pdf", "b.pdf", "c.pdf");
+    const listed: ListedObject[] = [{ key: "a.pdf", etag: '"a.pdf"' }];
+    const plan = planSync(state, listed, listed, true);
+    expect(plan.removed).toEqual(["b.pdf", "c.pdf"]);
+    expect(() => checkRemovals(plan.removed, listed.length, 2)).not.toThrow();
+    expect(() => checkRemovals([], 0, 0)).not.toThrow();
+  });
+
+  test("refuses more removals than the limit", () => {
+    const error = (() => {
+      try {
+        checkRemovals(["b.pdf", "c.pdf"], 1, 1);
+      } catch (err) {
+        return err;
+      }
+    })();
+    expect(error).toBeInstanceOf(RemovalLimitError);
+    expect(error).toMatchObject({ removed: 2, limit: 1, name: "RemovalLimitError" });
+  });
+
+  test("refuses to remove anything when nothing is listed", () => {
+    const plan = planSync(tracked("a.pdf"), [], [], true);
+    expect(plan.removed).toEqual(["a.pdf"]);
+    expect(() => checkRemovals(plan.removed, 0, 50)).toThrow(
+      "No objects listed; refusing to treat all 1 tracked object(s) as removed",
+    );
+  });
+});
@@ -0,0 +1,138 @@
+import fs from "node:fs";
+import path from "node:path";
+
+// `pending` = listed while processing was disabled; `seeded` = marked done without ingesting
+export type ObjectStatus = "pending" | "indexed" | "failed" | "seeded";
+
+export type ObjectState = {
+  etag: string | null;
+  size: number | null;
+  lastModified: string | null; // ISO
+  status: ObjectStatus;
+  error?: string;
+  updatedAt: string; // ISO
+};
+
+export type SyncState = {
+  version: 1;
+  objects: Record<string, ObjectState>;
+};
+
+export type ListedObject = { key: string; size?: number; lastModified?: Date; etag?: string };
+
+export type SyncPlan<T extends ListedObject> = {
+  added: T[];
+  changed: T[]; // etag differs from the last ingested version
+  retry: T[]; // failed last time, or pending and processing is now enabled
+  unchanged: T[];
+  removed: string[]; // in the state but no longer listed
+};
+
+const emptyState = (): SyncState => ({ version: 1, objects: {} });
+
+export function loadSyncState(file: string): SyncState {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(path.resolve(file), "utf8"));
+  } catch {
+    return emptyState();
+  }
+  // Legacy format: a flat array of processed keys. Their etags are unknown and get adopted
+  // from the next listing instead of forcing a full re-ingest.
+  if (Array.isArray(parsed)) {
+    const state = emptyState();
+    const now = new Date().toISOString();
+    for (const key of parsed) {
+      if (typeof key !== "string") continue;
+      state.objects[key] = {
+        etag: null,
+        size: null,
+        lastModified: null,
+        status: "indexed",
+        updatedAt: now,
+      };
+    }
+    return state;
+  }
+  const state = parsed as Partial<SyncState> | null;
+  if (state?.version !== 1 || typeof state.objects !== "object" || !state.objects) {
+    throw new Error(`Unrecognised sync state in ${file}`);
+  }
+  return state as SyncState;
+}
+
+// Written to a temp file and renamed so a crash mid-write never leaves a truncated state.
+export function saveSyncState(file: string, state: SyncState) {
+  const fullPath = path.resolve(file);
+  const tmpPath = `${fullPath}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(state, null, 2));
+  fs.renameSync(tmpPath, fullPath);
+}
+
+export function recordObject(
+  state: SyncState,
+  entry: ListedObject,
+  status: ObjectStatus,
+  error?: string,
+) {
+  state.objects[entry.key] = {
+    etag: entry.etag ?? null,
+    size: entry.size ?? null,
+    lastModified: entry.lastModified?.toISOString() ?? null,
+    status,
+    ...(error ? { error } : {}),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+// `candidates` are the objects in scope for this run (e.g. the latest run folder); `listed` is
+// everything under the prefix, so objects from older runs are not mistaken for deletions.
+export function planSync<T extends ListedObject>(
+  state: SyncState,
+  candidates: T[],
+  listed: ListedObject[],
+  processEnabled: boolean,
+): SyncPlan<T> {
+  const plan: SyncPlan<T> = { added: [], changed: [], retry: [], unchanged: [], removed: [] };
+  for (const entry of candidates) {
+    const previous = state.objects[entry.key];
+    if (!previous) {
+      plan.added.push(entry);
+    } else if (previous.etag !== null && entry.etag !== undefined && previous.etag !== entry.etag) {
+      plan.changed.push(entry);
+    } else if (previous.status === "failed" || (previous.status === "pending" && processEnabled)) {
+      plan.retry.push(entry);
+    } else {
+      if (previous.etag === null) recordObject(state, entry, previous.status);
+      plan.unchanged.push(entry);
+    }
+  }
+  const listedKeys = new Set(listed.map((entry) => entry.key));
+  plan.removed = Object.keys(state.objects).filter((key) => !listedKeys.has(key));
+  return plan;
+}
+
+export class RemovalLimitError extends Error {
+  constructor(
+    readonly removed: number,
+    readonly limit: number,
+  ) {
+    super(
+      `${removed} object(s) are gone from the listing, more than the limit of ${limit} per run; ` +
+        `check the prefix and raise AIRBYTE_MAX_DELETIONS if it is right`,
+    );
+    this.name = "RemovalLimitError";
+  }
+}
+
+// Removals delete points and files rows, so an empty listing (wrong prefix, missing permission)
+// or one that lost more than `limit` objects stops the run before anything is removed.
+export function checkRemovals(removed: string[], listed: number, limit: number) {
+  if (removed.length === 0) return;
+  if (listed === 0) {
+    throw new Error(
+      `No objects listed; refusing to treat all ${removed.length} tracked object(s) as removed`,
+    );
+  }
+  if (removed.length > limit) throw new RemovalLimitError(removed.length, limit);
+}
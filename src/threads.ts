@@ -0,0 +1,295 @@
+import { listJsonlKeys, readJsonlRecords } from "./jsonlReader";
+import { extractEmail, type ExtractedEmail, type GmailMessage } from "./emailExtractor";
+import type { AppConfig } from "./config";
+import { describeFilters, filterMessage, type FilterRule } from "./messageFilters";
+import { cleanEmailBody } from "./bodyCleaner";
+import { ObjectNotFoundError, readObject, type Storage } from "./storage";
+
+export type ThreadOptions = {
+  limit?: number;
+  dryRun?: boolean;
+};
+
+type ThreadCounters = {
+  processed: number;
+  threads: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  filtered: number; // messages left out of their thread by config.filters
+  filteredBy: Partial<Record<FilterRule, number>>;
+  deleted: number; // messages `reconcile` found gone from the mailbox
+};
+
+type ThreadMessage = {
+  messageId: string;
+  date: string | null;
+  timestamp: number | null;
+  from: string | null;
+  to: string | null;
+  cc: string | null;
+  subject: string | null;
+  labelIds: string[];
+  snippet: string | null;
+  body: string;
+};
+
+export type ThreadDocument = {
+  threadId: string;
+  workspaceId: string;
+  connectorId: string;
+  subject: string | null;
+  participants: string[];
+  messageCount: number;
+  messageIds: string[];
+  firstDate: string | null;
+  lastDate: string | null;
+  messages: ThreadMessage[];
+};
+
+function toThreadMessage(email: ExtractedEmail): ThreadMessage {
+  return {
+    messageId: email.messageId,
+    date: email.date ?? null,
+    timestamp: email.timestamp ?? null,
+    from: email.from ?? null,
+    to: email.to ?? null,
+    cc: email.cc ?? null,
+    subject: email.subject ?? null,
+    labelIds: email.labelIds,
+    snippet: email.snippet ?? null,
+    // Quoted replies are left out; the messages they quote are in the thread already
+    body: cleanEmailBody(email.body, email.bodyMime).text,
+  };
+}
+
+const isoDate = (ts: number | null) => (ts === null ? null : new Date(ts).toISOString());
+
+function buildThread(
+  config: AppConfig,
+  threadId: string,
+  messages: ThreadMessage[],
+): ThreadDocument {
+  // Date order, message id as a stable tie-breaker for identical timestamps
+  const ordered = [...messages].sort(
+    (a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0) || a.messageId.localeCompare(b.messageId),
+  );
+  const participants = new Set<string>();
+  for (const m of ordered) {
+    for (const field of [m.from, m.to, m.cc]) {
+      field
+        ?.split(",")
+        .map((p) => p.trim())
+        .filter(Boolean)
+        .forEach((p) => participants.add(p));
+    }
+  }
+  return {
+    threadId,
+    workspaceId: config.workspaceId,
+    connectorId: config.connectorId,
+    subject: ordered[0]?.subject ?? null,
+    participants: Array.from(participants),
+    messageCount: ordered.length,
+    messageIds: ordered.map((m) => m.messageId),
+    firstDate: isoDate(ordered[0]?.timestamp ?? null),
+    lastDate: isoDate(ordered[ordered.length - 1]?.timestamp ?? null),
+    messages: ordered,
+  };
+}
+
+export function threadTranscript(thread: ThreadDocument): string {
+  const lines = [
+    `Thread: ${thread.subject ?? "(no subject)"}`,
+    `Participants: ${thread.participants.join(", ")}`,
+    `Messages: ${thread.messageCount}`,
+  ];
+  thread.messages.forEach((m, idx) => {
+    lines.push(
+      "",
+      `--- [${idx + 1}/${thread.messageCount}] ${m.date ?? "(no date)"} ---`,
+      `From: ${m.from ?? ""}`,
+      `To: ${m.to ?? ""}`,
+      ...(m.cc ? [`Cc: ${m.cc}`] : []),
+      `Subject: ${m.subject ?? ""}`,
+      "",
+      m.body,
+    );
+  });
+  return `${lines.join("\n")}\n`;
+}
+
+async function loadExistingThread(storage: Storage, key: string): Promise<ThreadDocument | null> {
+  try {
+    const body = (await readObject(storage, key)).toString("utf8");
+    if (!body) return null;
+    const parsed = JSON.parse(body) as ThreadDocument;
+    return Array.isArray(parsed.messageIds) && Array.isArray(parsed.messages) ? parsed : null;
+  } catch (err) {
+    if (err instanceof ObjectNotFoundError) return null;
+    throw err;
+  }
+}
+
+const gmailRoot = (config: AppConfig) => `${config.rawFilesPrefix}${config.workspaceId}/gmail/`;
+const threadsPrefixOf = (config: AppConfig) => `${gmailRoot(config)}threads/`;
+
+// Ids `reconcile` tombstoned (`deleted/<id>.json`). Older JSONL files still hold these messages,
+// so they would otherwise be merged back into their threads.
+async function tombstonedIds(storage: Storage, config: AppConfig): Promise<Set<string>> {
+  const deletedPrefix = `${gmailRoot(config)}deleted/`;
+  const ids = new Set<string>();
+  for (const { key } of await storage.list(deletedPrefix)) {
+    const id = /^([^/]+)\.json$/.exec(key.slice(deletedPrefix.length))?.[1];
+    if (id) ids.add(id);
+  }
+  return ids;
+}
+
+export const transcriptKeyOf = (jsonKey: string) => jsonKey.replace(/\.json$/, ".txt");
+
+async function saveThread(storage: Storage, jsonKey: string, thread: ThreadDocument) {
+  await storage.put(jsonKey, JSON.stringify(thread, null, 2), {
+    contentType: "application/json",
+  });
+  await storage.put(transcriptKeyOf(jsonKey), threadTranscript(thread), {
+    contentType: "text/plain; charset=utf-8",
+  });
+}
+
+export type PrunedThread = {
+  threadId: string;
+  jsonKey: string;
+  removed: string[]; // message ids taken out
+  thread: ThreadDocument | null; // what is left; null when no message is
+};
+
+// Takes `messageIds` out of the thread documents, for `reconcile`. A thread left without
+// messages is deleted, the others are rebuilt from the messages they keep.
+export async function pruneThreads(
+  storage: Storage,
+  config: AppConfig,
+  messageIds: Set<string>,
+  opts: { dryRun?: boolean } = {},
+): Promise<PrunedThread[]> {
+  const pruned: PrunedThread[] = [];
+  for (const { key } of await storage.list(threadsPrefixOf(config))) {
+    if (!key.endsWith(".json")) continue;
+    const existing = await loadExistingThread(storage, key);
+    const removed = existing?.messageIds.filter((id) => messageIds.has(id)) ?? [];
+    if (!existing || removed.length === 0) continue;
+    const kept = existing.messages.filter((m) => !messageIds.has(m.messageId));
+    const thread = kept.length > 0 ? buildThread(config, existing.threadId, kept) : null;
+    pruned.push({ threadId: existing.threadId, jsonKey: key, removed, thread });
+    if (opts.dryRun) continue;
+    if (thread) {
+      await saveThread(storage, key, thread);
+    } else {
+      await storage.delete(key);
+      await storage.delete(transcriptKeyOf(key));
+    }
+  }
+  return pruned;
+}
+
+const sameIds = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((id, idx) => id === b[idx]);
+
+export async function processThreads(
+  storage: Storage,
+  config: AppConfig,
+  opts: ThreadOptions = {},
+): Promise<ThreadCounters> {
+  const counters: ThreadCounters = {
+    processed: 0,
+    threads: 0,
+    created: 0,
+    updated: 0,
+    skipped: 0,
+    failed: 0,
+    filtered: 0,
+    filteredBy: {},
+    deleted: 0,
+  };
+  const limit = opts.limit ?? Infinity;
+  const dryRun = opts.dryRun ?? false;
+  const threadsPrefix = threadsPrefixOf(config);
+  const deleted = await tombstonedIds(storage, config);
+
+  // Threads span files, so everything is grouped before any document is written.
+  const byThread = new Map<string, Map<string, ThreadMessage>>();
+  const keys = await listJsonlKeys(storage, config.detailsPrefix);
+  console.log(`Found ${keys.length} JSONL file(s) under ${config.detailsPrefix}`);
+  const filters = describeFilters(config.filters);
+  if (filters) console.log(`Filters: ${filters}`);
+
+  outer: for (const key of keys) {
+    console.log(`Reading ${key}...`);
+    for await (const record of readJsonlRecords<GmailMessage>(storage, key)) {
+      if (counters.processed >= limit) break outer;
+      counters.processed += 1;
+      const rule = filterMessage(config.filters, record);
+      if (rule) {
+        counters.filtered += 1;
+        counters.filteredBy[rule] = (counters.filteredBy[rule] ?? 0) + 1;
+        continue;
+      }
+      try {
+        const email = extractEmail(record, { preferHtml: false });
+        if (deleted.has(email.messageId)) {
+          counters.deleted += 1;
+          continue;
+        }
+        const threadId = email.threadId ?? email.messageId;
+        const messages = byThread.get(threadId) ?? new Map<string, ThreadMessage>();
+        // Airbyte can emit the same message in several syncs; the last copy wins
+        messages.set(email.messageId, toThreadMessage(email));
+        byThread.set(threadId, messages);
+      } catch (err) {
+        counters.failed += 1;
+        console.warn(`Error reading message from ${key}: ${(err as Error).message}`);
+      }
+    }
+  }
+
+  counters.threads = byThread.size;
+  const grouped = counters.processed - counters.filtered - counters.deleted - counters.failed;
+  console.log(`Grouped ${grouped} message(s) into ${byThread.size} thread(s)`);
+
+  for (const [threadId, messages] of byThread) {
+    const jsonKey = `${threadsPrefix}${threadId}.json`;
+    try {
+      const existing = await loadExistingThread(storage, jsonKey);
+      // Keep messages from earlier runs (e.g. with --limit or older JSONL files) in the thread
+      for (const m of existing?.messages ?? []) {
+        if (!messages.has(m.messageId)) messages.set(m.messageId, m);
+      }
+      const thread = buildThread(config, threadId, Array.from(messages.values()));
+      if (existing && sameIds(existing.messageIds, thread.messageIds)) {
+        counters.skipped += 1;
+        continue;
+      }
+
+      const action = existing ? "update" : "create";
+      if (dryRun) {
+        console.log(
+          `(Preview only) Would ${action} ${jsonKey} (${thread.messageCount} message(s))`,
+        );
+        continue;
+      }
+
+      await saveThread(storage, jsonKey, thread);
+      if (existing) counters.updated += 1;
+      else counters.created += 1;
+      console.log(
+        `${existing ? "Updated" : "Created"} ${jsonKey} (${thread.messageCount} message(s))`,
+      );
+    } catch (err) {
+      counters.failed += 1;
+      console.warn(`Error writing thread ${threadId}: ${(err as Error).message}`);
+    }
+  }
+
+  return counters;
+}